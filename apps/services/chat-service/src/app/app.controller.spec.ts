@@ -1,6 +1,20 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ContextLengthError,
+  ProviderUnavailableError,
+  QuotaExceededException,
+  TimeoutError,
+} from '@ai-solution/core/llm';
+import { RateLimitService } from '@ai-solution/core/auth';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { toChatError } from './chat-exception.filter';
+import { ChatRequestDto } from './dto/chat.dto';
 
 describe('AppController', () => {
   let app: TestingModule;
@@ -8,14 +22,111 @@ describe('AppController', () => {
   beforeAll(async () => {
     app = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        {
+          provide: AppService,
+          useValue: {
+            getAvailableProviders: () => ({ providers: ['mock'], total: 1 }),
+            getModelCatalog: jest.fn().mockResolvedValue({ models: [] }),
+          },
+        },
+        { provide: RateLimitService, useValue: {} },
+      ],
     }).compile();
   });
 
-  describe('getData', () => {
-    it('should return "Hello API"', () => {
+  describe('getHealth', () => {
+    it('should report the service as up', () => {
       const appController = app.get<AppController>(AppController);
-      expect(appController.getData()).toEqual({ message: 'Hello API' });
+      expect(appController.getHealth()).toMatchObject({
+        status: 'ok',
+        service: 'ai-chat-service',
+      });
     });
   });
+
+  describe('getProviders', () => {
+    it('should return the registered providers', () => {
+      const appController = app.get<AppController>(AppController);
+      expect(appController.getProviders()).toEqual({
+        providers: ['mock'],
+        total: 1,
+      });
+    });
+  });
+
+  describe('getProviderModels', () => {
+    it('should pass the provider filter and refresh flag through', async () => {
+      const appController = app.get<AppController>(AppController);
+      const appService = app.get<AppService>(AppService);
+
+      await appController.getProviderModels('ollama', 'true');
+
+      expect(appService.getModelCatalog).toHaveBeenCalledWith('ollama', true);
+    });
+  });
+});
+
+describe('toChatError', () => {
+  it.each([
+    [
+      new ProviderUnavailableError('connect ECONNREFUSED', 'openai', 503),
+      HttpStatus.SERVICE_UNAVAILABLE,
+      'provider_unavailable',
+    ],
+    [
+      new TimeoutError('timed out', 'claude'),
+      HttpStatus.GATEWAY_TIMEOUT,
+      'provider_timeout',
+    ],
+    [
+      new ContextLengthError('too long', 'openai', 400),
+      HttpStatus.BAD_REQUEST,
+      'context_length_exceeded',
+    ],
+    [
+      new QuotaExceededException('daily', 1000, 1200, new Date()),
+      HttpStatus.TOO_MANY_REQUESTS,
+      'quota_exceeded',
+    ],
+    [new Error('boom'), HttpStatus.INTERNAL_SERVER_ERROR, 'internal_error'],
+  ])('should map %p to %i %s', (exception, statusCode, error) => {
+    expect(toChatError(exception)).toMatchObject({ statusCode, error });
+  });
+
+  it('should not leak upstream error details', () => {
+    expect(
+      toChatError(new ProviderUnavailableError('secret host', 'openai')).message
+    ).not.toContain('secret host');
+  });
+});
+
+describe('ChatRequestDto', () => {
+  // The same options main.ts installs globally
+  const pipe = new ValidationPipe({ transform: true, whitelist: true });
+  const validate = (body: object) =>
+    pipe.transform(body, { type: 'body', metatype: ChatRequestDto });
+
+  it('should accept a message with a conversation id and provider', async () => {
+    const body = {
+      message: 'hi',
+      conversationId: '3f2b8c1e-5a4d-4e6f-9b7a-1c2d3e4f5a6b',
+      provider: 'ollama',
+    };
+
+    await expect(validate(body)).resolves.toEqual(body);
+  });
+
+  it('should reject a conversation id that is not a UUID', async () => {
+    await expect(
+      validate({ message: 'hi', conversationId: '42' })
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it.each([{}, { message: '' }, { message: 42 }])(
+    'should reject the message in %p',
+    async (body) => {
+      await expect(validate(body)).rejects.toBeInstanceOf(BadRequestException);
+    }
+  );
 });
@@ -1,10 +1,17 @@
-import { Controller, Get, Post, Body } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Res,
+  HttpCode,
+  Query,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { RateLimit } from '@ai-solution/core/auth';
 import { AppService } from './app.service';
-
-export interface ChatRequest {
-  message: string;
-  provider?: 'openai' | 'claude' | 'ollama';
-}
+import { toChatError } from './chat-exception.filter';
+import { ChatRequestDto } from './dto/chat.dto';
 
 @Controller()
 export class AppController {
@@ -20,12 +27,79 @@ export class AppController {
   }
 
   @Post('chat')
-  async chat(@Body() request: ChatRequest) {
-    return this.appService.generateChatResponse(request);
+  @RateLimit({ points: 20, duration: 60 })
+  async chat(
+    @Body() request: ChatRequestDto,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    const abortController = new AbortController();
+    // Cancel the upstream LLM call if the client disconnects before the answer
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    return this.appService.generateChatResponse(
+      request,
+      abortController.signal
+    );
+  }
+
+  /**
+   * Streams the answer as Server-Sent Events: one `token` event per delta,
+   * then a terminal `done` (or `error`) event.
+   */
+  @Post('chat/stream')
+  @HttpCode(200)
+  @RateLimit({ points: 20, duration: 60 })
+  async chatStream(@Body() request: ChatRequestDto, @Res() res: Response) {
+    const abortController = new AbortController();
+    // Stop paying for tokens once the browser has gone away
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    try {
+      for await (const event of this.appService.streamChatResponse(
+        request,
+        abortController.signal
+      )) {
+        const { type, ...data } = event;
+        res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        res.write(
+          `event: error\ndata: ${JSON.stringify(toChatError(error))}\n\n`
+        );
+      }
+    }
+
+    res.end();
   }
 
   @Get('providers')
-  async getProviders() {
+  getProviders() {
     return this.appService.getAvailableProviders();
   }
+
+  /**
+   * Models per provider with their capabilities. Provider listings are
+   * cached; `refresh=true` fetches them again.
+   */
+  @Get('providers/models')
+  getProviderModels(
+    @Query('provider') provider?: string,
+    @Query('refresh') refresh?: string
+  ) {
+    return this.appService.getModelCatalog(provider, refresh === 'true');
+  }
 }
@@ -1,17 +1,32 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
 import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
-import { LLMModule } from '@ai-solution/core/llm';
+import { LLMModule, PromptModule } from '@ai-solution/core/llm';
+import { DatabaseModule } from '@ai-solution/core/database';
+import { RateLimitModule } from '@ai-solution/core/auth';
+import { ConversationsModule } from './conversations/conversations.module';
+import { CHAT_PROMPT_SEEDS } from './chat-prompts';
+import { ChatExceptionFilter } from './chat-exception.filter';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    DatabaseModule.forRoot({
+      autoLoadEntities: true,
+    }),
     LLMModule.forRoot(),
+    PromptModule.forRoot({ seed: CHAT_PROMPT_SEEDS }),
+    RateLimitModule.forRoot(),
+    ConversationsModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    { provide: APP_FILTER, useClass: ChatExceptionFilter },
+  ],
 })
 export class AppModule {}
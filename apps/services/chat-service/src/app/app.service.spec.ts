@@ -1,20 +1,145 @@
 import { Test } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import {
+  LLMService,
+  MockProvider,
+  ModelCapabilityError,
+  ProviderUnavailableError,
+} from '@ai-solution/core/llm';
 import { AppService } from './app.service';
+import { ConversationsService } from './conversations/conversations.service';
+import { CHAT_PROMPT_SEEDS } from './chat-prompts';
 
 describe('AppService', () => {
   let service: AppService;
+  let llmService: LLMService;
+  let provider: MockProvider;
+  let conversations: {
+    resolve: jest.Mock;
+    loadHistory: jest.Mock;
+    appendMessages: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    provider = new MockProvider({ responses: ['안녕하세요!'] });
+    conversations = {
+      resolve: jest.fn().mockResolvedValue({ id: 'conversation-1' }),
+      loadHistory: jest.fn().mockResolvedValue([]),
+      appendMessages: jest.fn().mockResolvedValue(undefined),
+    };
+
+    llmService = new LLMService();
+    llmService.configure({
+      defaultProvider: 'mock',
+      fallbackProviders: [],
+      retryAttempts: 1,
+      retryDelay: 0,
+      healthCheckInterval: 0,
+    });
+    llmService.registerProvider(provider);
+    llmService.setPromptSource({
+      getTemplate: async (name) =>
+        name === CHAT_PROMPT_SEEDS[0].name
+          ? { ...CHAT_PROMPT_SEEDS[0], version: 1, variables: [] }
+          : undefined,
+    });
 
-  beforeAll(async () => {
     const app = await Test.createTestingModule({
-      providers: [AppService],
+      providers: [
+        AppService,
+        { provide: LLMService, useValue: llmService },
+        { provide: ConversationsService, useValue: conversations },
+      ],
     }).compile();
 
     service = app.get<AppService>(AppService);
   });
 
-  describe('getData', () => {
-    it('should return "Hello API"', () => {
-      expect(service.getData()).toEqual({ message: 'Hello API' });
+  describe('generateChatResponse', () => {
+    it('should answer with the provider response and store the turn', async () => {
+      const result = await service.generateChatResponse({ message: 'hi' });
+
+      expect(result).toMatchObject({
+        response: '안녕하세요!',
+        provider: 'mock',
+        conversationId: 'conversation-1',
+      });
+      expect(provider.calls[0].messages).toEqual([
+        { role: 'system', content: CHAT_PROMPT_SEEDS[0].messages[0].content },
+        { role: 'user', content: 'hi' },
+      ]);
+      expect(conversations.appendMessages).toHaveBeenCalledWith(
+        'conversation-1',
+        [
+          { role: 'user', content: 'hi' },
+          expect.objectContaining({
+            role: 'assistant',
+            content: '안녕하세요!',
+            provider: 'mock',
+            promptName: CHAT_PROMPT_SEEDS[0].name,
+            promptVersion: 1,
+          }),
+        ]
+      );
+    });
+
+    it('should surface provider failures instead of answering', async () => {
+      provider.failNext();
+
+      await expect(
+        service.generateChatResponse({ message: 'hi' })
+      ).rejects.toBeInstanceOf(ProviderUnavailableError);
+      expect(conversations.appendMessages).not.toHaveBeenCalled();
+    });
+
+    it('should reject a model that cannot chat before calling the provider', async () => {
+      llmService.configure({
+        modelCapabilities: { mock: { 'mock-model': { chat: false } } },
+      });
+
+      await expect(
+        service.generateChatResponse({ message: 'hi' })
+      ).rejects.toBeInstanceOf(ModelCapabilityError);
+      expect(provider.calls).toHaveLength(0);
+    });
+  });
+
+  describe('streamChatResponse', () => {
+    it('should yield tokens followed by a done event', async () => {
+      const events = [];
+      for await (const event of service.streamChatResponse({
+        message: 'hi',
+      })) {
+        events.push(event);
+      }
+
+      expect(events.map((event) => event.type)).toEqual(['token', 'done']);
+      expect(events[1]).toMatchObject({
+        provider: 'mock',
+        conversationId: 'conversation-1',
+      });
+      expect(conversations.appendMessages).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getModelCatalog', () => {
+    it('should list the models of the registered providers', async () => {
+      const { models, total } = await service.getModelCatalog();
+
+      expect(total).toBe(1);
+      expect(models[0]).toMatchObject({
+        id: 'mock-model',
+        provider: 'mock',
+        default: true,
+        source: 'discovered',
+        capabilities: { chat: true, streaming: true },
+      });
+    });
+
+    it('should reject an unknown provider', async () => {
+      await expect(service.getModelCatalog('nope')).rejects.toBeInstanceOf(
+        NotFoundException
+      );
     });
   });
 });
@@ -1,79 +1,167 @@
-import { Injectable } from '@nestjs/common';
-import { LLMService } from '@ai-solution/core/llm';
-
-export interface ChatRequest {
-  message: string;
-  provider?: 'openai' | 'claude' | 'ollama';
-}
+import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  LLMService,
+  LLMMessage,
+  LLMUsage
+} from '@ai-solution/core/llm';
+import { ConversationsService } from './conversations/conversations.service';
+import { CHAT_ASSISTANT_PROMPT } from './chat-prompts';
+import { ChatRequestDto } from './dto/chat.dto';
 
 export interface ChatResponse {
   response: string;
   provider: string;
+  conversationId: string;
   timestamp: Date;
 }
 
+export type ChatStreamEvent =
+  | { type: 'token'; delta: string }
+  | {
+      type: 'done';
+      provider: string;
+      usage?: LLMUsage;
+      conversationId: string;
+      timestamp: Date;
+    };
+
 @Injectable()
 export class AppService {
-  constructor(private readonly llmService: LLMService) {}
+  constructor(
+    private readonly llmService: LLMService,
+    private readonly conversationsService: ConversationsService
+  ) {}
 
-  async generateChatResponse(request: ChatRequest): Promise<ChatResponse> {
-    try {
-      const response = await this.llmService.generateCompletion(
-        [
-          {
-            role: 'system',
-            content: '당신은 도움이 되는 AI 어시스턴트입니다. 사용자의 질문에 정확하고 유용한 답변을 제공하세요.'
-          },
+  async generateChatResponse(
+    request: ChatRequestDto,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    const conversation = await this.conversationsService.resolve(
+      request.conversationId,
+      request.message
+    );
+
+    // Failures propagate to ChatExceptionFilter; nothing is stored for them
+    const response = await this.llmService.generateFromTemplate(
+      CHAT_ASSISTANT_PROMPT,
+      {},
+      {
+        messages: await this.buildMessages(conversation.id, request),
+        provider: request.provider,
+        contextWindow: 'summarize',
+        signal
+      }
+    );
+
+    await this.conversationsService.appendMessages(conversation.id, [
+      { role: 'user', content: request.message },
+      {
+        role: 'assistant',
+        content: response.content,
+        provider: response.provider,
+        usage: response.usage,
+        promptName: response.prompt?.name,
+        promptVersion: response.prompt?.version
+      }
+    ]);
+
+    return {
+      response: response.content,
+      provider: response.provider,
+      conversationId: conversation.id,
+      timestamp: new Date()
+    };
+  }
+
+  async *streamChatResponse(
+    request: ChatRequestDto,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamEvent> {
+    const conversation = await this.conversationsService.resolve(
+      request.conversationId,
+      request.message
+    );
+
+    const stream = this.llmService.streamFromTemplate(
+      CHAT_ASSISTANT_PROMPT,
+      {},
+      {
+        messages: await this.buildMessages(conversation.id, request),
+        provider: request.provider,
+        contextWindow: 'summarize',
+        signal
+      }
+    );
+
+    let content = '';
+    for await (const chunk of stream) {
+      if (chunk.done) {
+        // Only completed answers are stored; aborted streams leave no turn behind
+        await this.conversationsService.appendMessages(conversation.id, [
+          { role: 'user', content: request.message },
           {
-            role: 'user',
-            content: request.message
+            role: 'assistant',
+            content,
+            provider: chunk.provider,
+            usage: chunk.usage,
+            promptName: chunk.prompt?.name,
+            promptVersion: chunk.prompt?.version
           }
-        ],
-        {
-          provider: request.provider || 'openai',
-          maxTokens: 500,
-          temperature: 0.7
-        }
-      );
-
-      return {
-        response: response.content,
-        provider: response.provider,
-        timestamp: new Date()
-      };
-    } catch (error) {
-      // 실제 LLM 연동이 실패하면 모의 응답 반환
-      const mockResponses = [
-        "안녕하세요! AI 챗봇입니다. 무엇을 도와드릴까요?",
-        "흥미로운 질문이네요! 더 자세히 설명해주시겠어요?",
-        "정말 좋은 질문입니다! 이것에 대해 함께 알아보겠습니다."
-      ];
-      
-      const randomResponse = mockResponses[Math.floor(Math.random() * mockResponses.length)];
-      
-      return {
-        response: `${randomResponse}\n\n(모의 모드 - 원본 메시지: "${request.message}")`,
-        provider: 'mock',
-        timestamp: new Date()
-      };
+        ]);
+
+        yield {
+          type: 'done',
+          provider: chunk.provider,
+          usage: chunk.usage,
+          conversationId: conversation.id,
+          timestamp: new Date()
+        };
+      } else {
+        content += chunk.delta;
+        yield { type: 'token', delta: chunk.delta };
+      }
     }
   }
 
-  async getAvailableProviders() {
-    try {
-      const providers = await this.llmService.getAvailableProviders();
-      return {
-        providers,
-        total: providers.length,
-        timestamp: new Date().toISOString()
-      };
-    } catch (error) {
-      return {
-        providers: ['mock'],
-        total: 1,
-        status: 'LLM integration pending - using mock mode',
-        timestamp: new Date().toISOString()
-      };
+  private async buildMessages(
+    conversationId: string,
+    request: ChatRequestDto
+  ): Promise<LLMMessage[]> {
+    const history = await this.conversationsService.loadHistory(conversationId);
+
+    // The system prompt comes from the chat-assistant template
+    return [
+      ...history,
+      {
+        role: 'user',
+        content: request.message
+      }
+    ];
+  }
+
+  getAvailableProviders() {
+    const providers = this.llmService.getAvailableProviders();
+    return {
+      providers,
+      total: providers.length,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /** Models of the registered providers and what each can do */
+  async getModelCatalog(provider?: string, refresh = false) {
+    if (
+      provider &&
+      !this.llmService.getAvailableProviders().includes(provider)
+    ) {
+      throw new NotFoundException(`Provider ${provider} not found`);
     }
+
+    const models = await this.llmService.getModelCatalog({ provider, refresh });
+    return {
+      models,
+      total: models.length,
+      timestamp: new Date().toISOString()
+    };
   }
 }
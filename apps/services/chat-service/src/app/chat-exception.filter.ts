@@ -0,0 +1,169 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  ContentFilterError,
+  ContextLengthError,
+  InvalidRequestError,
+  LLMProviderError,
+  ModelCapabilityError,
+  ProviderUnavailableError,
+  QuotaExceededException,
+  RateLimitError,
+  TimeoutError,
+} from '@ai-solution/core/llm';
+
+/** Error body of every failed chat-service request and stream `error` event */
+export interface ChatErrorBody {
+  statusCode: number;
+  /** Stable machine-readable code, e.g. 'provider_unavailable' */
+  error: string;
+  message: string;
+  /** Provider that failed, for upstream errors */
+  provider?: string;
+  timestamp: string;
+}
+
+const HTTP_ERROR_CODES: Record<number, string> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  429: 'rate_limited',
+};
+
+/**
+ * Maps any thrown value to a status and `ChatErrorBody`. Upstream error
+ * details stay in the logs; clients get a fixed message per code.
+ */
+export function toChatError(exception: unknown): ChatErrorBody {
+  const body = (
+    statusCode: number,
+    error: string,
+    message: string,
+    provider?: string
+  ): ChatErrorBody => ({
+    statusCode,
+    error,
+    message,
+    provider,
+    timestamp: new Date().toISOString(),
+  });
+
+  if (exception instanceof HttpException) {
+    const status = exception.getStatus();
+    const response = exception.getResponse();
+    const detail =
+      typeof response === 'string'
+        ? response
+        : (response as { message?: string | string[] }).message;
+    const message = Array.isArray(detail)
+      ? detail.join('; ')
+      : detail || exception.message;
+
+    return body(
+      status,
+      exception instanceof QuotaExceededException
+        ? 'quota_exceeded'
+        : HTTP_ERROR_CODES[status] ??
+            (status >= 500 ? 'internal_error' : 'http_error'),
+      message
+    );
+  }
+
+  if (exception instanceof ModelCapabilityError) {
+    return body(
+      HttpStatus.BAD_REQUEST,
+      'unsupported_input',
+      exception.message,
+      exception.provider
+    );
+  }
+  if (exception instanceof LLMProviderError) {
+    const { provider } = exception;
+    if (exception instanceof ContextLengthError) {
+      return body(
+        HttpStatus.BAD_REQUEST,
+        'context_length_exceeded',
+        'The conversation is too long for the selected model',
+        provider
+      );
+    }
+    if (exception instanceof ContentFilterError) {
+      return body(
+        HttpStatus.BAD_REQUEST,
+        'content_filtered',
+        "The request was blocked by the provider's content filter",
+        provider
+      );
+    }
+    if (exception instanceof InvalidRequestError) {
+      return body(
+        HttpStatus.BAD_REQUEST,
+        'invalid_request',
+        'The provider rejected the request',
+        provider
+      );
+    }
+    if (exception instanceof RateLimitError) {
+      return body(
+        HttpStatus.SERVICE_UNAVAILABLE,
+        'provider_rate_limited',
+        'The AI provider is rate limiting requests, please retry shortly',
+        provider
+      );
+    }
+    if (exception instanceof TimeoutError) {
+      return body(
+        HttpStatus.GATEWAY_TIMEOUT,
+        'provider_timeout',
+        'The AI provider did not respond in time',
+        provider
+      );
+    }
+    if (exception instanceof ProviderUnavailableError) {
+      return body(
+        HttpStatus.SERVICE_UNAVAILABLE,
+        'provider_unavailable',
+        'The AI provider is temporarily unavailable',
+        provider
+      );
+    }
+    return body(
+      HttpStatus.BAD_GATEWAY,
+      'provider_error',
+      'The AI provider failed to answer',
+      provider
+    );
+  }
+
+  return body(
+    HttpStatus.INTERNAL_SERVER_ERROR,
+    'internal_error',
+    'Internal server error'
+  );
+}
+
+@Catch()
+export class ChatExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ChatExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    const body = toChatError(exception);
+
+    if (body.statusCode >= 500) {
+      this.logger.error(`Request failed: ${body.error}`, exception);
+    }
+    if (!response.headersSent) {
+      response.status(body.statusCode).json(body);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { PromptTemplateInput } from '@ai-solution/core/llm';
+
+export const CHAT_ASSISTANT_PROMPT = 'chat-assistant';
+
+/**
+ * Initial version of the assistant prompt, seeded when the database has
+ * none. Later versions are managed through PromptService.
+ */
+export const CHAT_PROMPT_SEEDS: PromptTemplateInput[] = [
+  {
+    name: CHAT_ASSISTANT_PROMPT,
+    description: 'System prompt of the chat-service assistant',
+    messages: [
+      {
+        role: 'system',
+        content:
+          '당신은 도움이 되는 AI 어시스턴트입니다. 사용자의 질문에 정확하고 유용한 답변을 제공하세요.',
+      },
+    ],
+    options: { maxTokens: 500, temperature: 0.7 },
+  },
+];
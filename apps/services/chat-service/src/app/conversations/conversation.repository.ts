@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { BaseRepository } from '@ai-solution/core/database';
+import { Conversation } from './entities/conversation.entity';
+import { Message } from './entities/message.entity';
+
+@Injectable()
+export class ConversationRepository extends BaseRepository<Conversation> {
+  constructor(dataSource: DataSource) {
+    super(Conversation, dataSource.createEntityManager());
+  }
+}
+
+@Injectable()
+export class MessageRepository extends BaseRepository<Message> {
+  constructor(dataSource: DataSource) {
+    super(Message, dataSource.createEntityManager());
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+} from '@nestjs/common';
+import { ConversationsService } from './conversations.service';
+import { RenameConversationDto } from './dto/conversation.dto';
+
+@Controller('conversations')
+export class ConversationsController {
+  constructor(private readonly conversationsService: ConversationsService) {}
+
+  @Get()
+  async findAll() {
+    return this.conversationsService.findAll();
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.conversationsService.findOne(id);
+  }
+
+  @Patch(':id')
+  async rename(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RenameConversationDto
+  ) {
+    return this.conversationsService.rename(id, dto.title);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id', ParseUUIDPipe) id: string) {
+    await this.conversationsService.remove(id);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(200)
+  async restore(@Param('id', ParseUUIDPipe) id: string) {
+    return this.conversationsService.restore(id);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConversationsController } from './conversations.controller';
+import { ConversationsService } from './conversations.service';
+import {
+  ConversationRepository,
+  MessageRepository,
+} from './conversation.repository';
+import { Conversation } from './entities/conversation.entity';
+import { Message } from './entities/message.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Conversation, Message])],
+  controllers: [ConversationsController],
+  providers: [ConversationsService, ConversationRepository, MessageRepository],
+  exports: [ConversationsService],
+})
+export class ConversationsModule {}
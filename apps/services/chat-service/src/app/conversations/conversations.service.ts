@@ -0,0 +1,117 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DeepPartial } from 'typeorm';
+import { LLMMessage } from '@ai-solution/core/llm';
+import {
+  ConversationRepository,
+  MessageRepository,
+} from './conversation.repository';
+import { Conversation } from './entities/conversation.entity';
+import { Message } from './entities/message.entity';
+
+// Upper bound on prior turns sent back to the model for one request
+const HISTORY_LIMIT = 50;
+const TITLE_LENGTH = 50;
+
+@Injectable()
+export class ConversationsService {
+  constructor(
+    private readonly conversationRepository: ConversationRepository,
+    private readonly messageRepository: MessageRepository
+  ) {}
+
+  async findAll(): Promise<Conversation[]> {
+    return this.conversationRepository.find({
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string): Promise<Conversation> {
+    const conversation = await this.conversationRepository.findOne({
+      where: { id },
+      relations: { messages: true },
+      order: { messages: { createdAt: 'ASC' } },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversation ${id} not found`);
+    }
+
+    return conversation;
+  }
+
+  async rename(id: string, title: string): Promise<Conversation> {
+    await this.ensureExists(id);
+    return this.conversationRepository.updateById(id, { title });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.ensureExists(id);
+    await this.conversationRepository.softDeleteById(id);
+  }
+
+  async restore(id: string): Promise<Conversation> {
+    const conversation = await this.conversationRepository.findOneWithDeleted({
+      where: { id },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversation ${id} not found`);
+    }
+
+    await this.conversationRepository.restoreById(id);
+    return this.findOne(id);
+  }
+
+  /**
+   * Returns the conversation a chat request continues, or starts a new one
+   * titled after the first user message.
+   */
+  async resolve(
+    conversationId: string | undefined,
+    firstMessage: string
+  ): Promise<Conversation> {
+    if (conversationId) {
+      return this.ensureExists(conversationId);
+    }
+
+    return this.conversationRepository.createAndSave({
+      title: firstMessage.slice(0, TITLE_LENGTH),
+    });
+  }
+
+  async loadHistory(conversationId: string): Promise<LLMMessage[]> {
+    const messages = await this.messageRepository.find({
+      where: { conversationId },
+      order: { createdAt: 'DESC' },
+      take: HISTORY_LIMIT,
+    });
+
+    return messages
+      .reverse()
+      .map((message) => ({ role: message.role, content: message.content }));
+  }
+
+  async appendMessages(
+    conversationId: string,
+    messages: DeepPartial<Message>[]
+  ): Promise<void> {
+    // Saved one by one so createdAt keeps the turn order
+    for (const message of messages) {
+      await this.messageRepository.createAndSave({ ...message, conversationId });
+    }
+    // Bumps updatedAt so the conversation list stays ordered by activity
+    await this.conversationRepository.update(conversationId, {
+      updatedAt: new Date(),
+    });
+  }
+
+  private async ensureExists(id: string): Promise<Conversation> {
+    const conversation = await this.conversationRepository.findOneBy({ id });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversation ${id} not found`);
+    }
+
+    return conversation;
+  }
+}
@@ -0,0 +1,12 @@
+import { Entity, Column, OneToMany } from 'typeorm';
+import { BaseEntity } from '@ai-solution/core/database';
+import { Message } from './message.entity';
+
+@Entity('conversations')
+export class Conversation extends BaseEntity {
+  @Column()
+  title!: string;
+
+  @OneToMany(() => Message, (message) => message.conversation)
+  messages?: Message[];
+}
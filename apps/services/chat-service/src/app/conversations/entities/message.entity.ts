@@ -0,0 +1,36 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@ai-solution/core/database';
+import { LLMMessage, LLMUsage } from '@ai-solution/core/llm';
+import { Conversation } from './conversation.entity';
+
+@Entity('conversation_messages')
+@Index(['conversationId', 'createdAt'])
+export class Message extends BaseEntity {
+  @Column('uuid')
+  conversationId!: string;
+
+  @ManyToOne(() => Conversation, (conversation) => conversation.messages, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'conversationId' })
+  conversation?: Conversation;
+
+  @Column({ type: 'varchar', length: 20 })
+  role!: LLMMessage['role'];
+
+  @Column({ type: 'text' })
+  content!: string;
+
+  @Column({ nullable: true })
+  provider?: string;
+
+  @Column({ type: 'json', nullable: true })
+  usage?: LLMUsage;
+
+  /** Prompt template version that produced an assistant message */
+  @Column({ nullable: true })
+  promptName?: string;
+
+  @Column({ type: 'integer', nullable: true })
+  promptVersion?: number;
+}
@@ -0,0 +1,18 @@
+import { IsString, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+
+/** Body of `POST /chat` and `POST /chat/stream` */
+export class ChatRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  message!: string;
+
+  /** Continues this conversation; a new one is started when omitted */
+  @IsOptional()
+  @IsUUID()
+  conversationId?: string;
+
+  /** A registered provider name; the default provider when omitted */
+  @IsOptional()
+  @IsString()
+  provider?: string;
+}
@@ -0,0 +1,13 @@
+import { Controller, Get } from '@nestjs/common';
+
+@Controller()
+export class AppController {
+  @Get('health')
+  getHealth() {
+    return {
+      status: 'ok',
+      service: 'ai-gateway-service',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AppController } from './app.controller';
+import { LLMModule, UsageModule } from '@ai-solution/core/llm';
+import { DatabaseModule } from '@ai-solution/core/database';
+import { AuthModule, RateLimitModule } from '@ai-solution/core/auth';
+import { OpenAIModule } from './openai/openai.module';
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+    }),
+    DatabaseModule.forRoot({
+      autoLoadEntities: true,
+    }),
+    // Also serves /auth, where users log in to create their API keys
+    AuthModule.forRoot({ enableController: true }),
+    LLMModule.forRoot(),
+    UsageModule.forRoot(),
+    RateLimitModule.forRoot(),
+    OpenAIModule,
+  ],
+  controllers: [AppController],
+})
+export class AppModule {}
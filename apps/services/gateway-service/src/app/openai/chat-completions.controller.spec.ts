@@ -0,0 +1,270 @@
+import { EventEmitter } from 'events';
+import { Test } from '@nestjs/testing';
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import { Response } from 'express';
+import {
+  ContextLengthError,
+  InvalidRequestError,
+  LLMService,
+  MockProvider,
+  ModelCapabilityError,
+  ProviderUnavailableError,
+  QuotaExceededException,
+  RateLimitError,
+  TimeoutError,
+} from '@ai-solution/core/llm';
+import {
+  ApiKeyService,
+  AuthenticatedUser,
+  RateLimitService,
+  UserRole,
+} from '@ai-solution/core/auth';
+import { ChatCompletionsController } from './chat-completions.controller';
+import { GatewayService } from './gateway.service';
+import { toOpenAIError } from './openai-exception.filter';
+
+const user: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'dev@example.com',
+  firstName: 'Dev',
+  lastName: 'User',
+  role: UserRole.USER,
+  isActive: true,
+};
+
+/** Records what the controller writes instead of sending it */
+class FakeResponse extends EventEmitter {
+  body: unknown;
+  chunks: string[] = [];
+  headers: Record<string, string> = {};
+  writableEnded = false;
+
+  json = jest.fn((body: unknown) => {
+    this.body = body;
+    this.writableEnded = true;
+  });
+  setHeader = jest.fn((name: string, value: string) => {
+    this.headers[name] = value;
+  });
+  flushHeaders = jest.fn();
+  write = jest.fn((chunk: string) => this.chunks.push(chunk));
+  end = jest.fn(() => {
+    this.writableEnded = true;
+  });
+}
+
+/** Parses the `data:` events of an SSE body, leaving `[DONE]` as is */
+function parseEvents(chunks: string[]): unknown[] {
+  return chunks.map((chunk) => {
+    const data = chunk.replace(/^data: /, '').trim();
+    return data === '[DONE]' ? data : JSON.parse(data);
+  });
+}
+
+describe('ChatCompletionsController', () => {
+  let controller: ChatCompletionsController;
+  let provider: MockProvider;
+
+  beforeEach(async () => {
+    provider = new MockProvider({
+      name: 'openai',
+      responses: [
+        {
+          content: 'Hello there',
+          usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+        },
+      ],
+    });
+    const llmService = new LLMService();
+    llmService.configure({
+      defaultProvider: 'openai',
+      fallbackProviders: [],
+      retryAttempts: 1,
+      retryDelay: 0,
+      healthCheckInterval: 0,
+    });
+    llmService.registerProvider(provider);
+
+    const app = await Test.createTestingModule({
+      controllers: [ChatCompletionsController],
+      providers: [
+        GatewayService,
+        { provide: LLMService, useValue: llmService },
+        { provide: ApiKeyService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = app.get<ChatCompletionsController>(ChatCompletionsController);
+  });
+
+  describe('create', () => {
+    it('should answer in the chat.completion format', async () => {
+      const res = new FakeResponse();
+
+      await controller.create(
+        {
+          model: 'openai/gpt-4o-mini',
+          messages: [{ role: 'user', content: 'hi' }],
+        },
+        user,
+        res as unknown as Response
+      );
+
+      expect(res.body).toEqual({
+        id: expect.stringMatching(/^chatcmpl-/),
+        object: 'chat.completion',
+        created: expect.any(Number),
+        model: 'openai/gpt-4o-mini',
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: 'Hello there',
+              tool_calls: undefined,
+            },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+      });
+      expect(provider.calls[0].options).toMatchObject({ model: 'gpt-4o-mini' });
+    });
+
+    it('should stream chat.completion.chunk events ending with [DONE]', async () => {
+      const res = new FakeResponse();
+
+      await controller.create(
+        {
+          model: 'openai',
+          messages: [{ role: 'user', content: 'hi' }],
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        user,
+        res as unknown as Response
+      );
+
+      expect(res.headers['Content-Type']).toBe('text/event-stream');
+      const events = parseEvents(res.chunks);
+      const chunk = (delta: object, finish_reason: string | null = null) => ({
+        id: expect.stringMatching(/^chatcmpl-/),
+        object: 'chat.completion.chunk',
+        created: expect.any(Number),
+        model: 'openai',
+        choices: [{ index: 0, delta, finish_reason }],
+      });
+      expect(events).toEqual([
+        chunk({ role: 'assistant', content: '' }),
+        chunk({ content: 'Hello ' }),
+        chunk({ content: 'there' }),
+        chunk({}, 'stop'),
+        {
+          ...chunk({}),
+          choices: [],
+          usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        },
+        '[DONE]',
+      ]);
+      // Every chunk of one completion shares its id
+      const ids = new Set(
+        events.slice(0, -1).map((event) => (event as { id: string }).id)
+      );
+      expect(ids.size).toBe(1);
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should throw before streaming when the provider fails up front', async () => {
+      provider.failNext(1, new RateLimitError('slow down', 'openai'));
+      const res = new FakeResponse();
+
+      await expect(
+        controller.create(
+          {
+            model: 'openai',
+            messages: [{ role: 'user', content: 'hi' }],
+            stream: true,
+          },
+          user,
+          res as unknown as Response
+        )
+      ).rejects.toBeInstanceOf(RateLimitError);
+      expect(res.flushHeaders).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('toOpenAIError', () => {
+  it.each([
+    [
+      new InvalidRequestError('bad request', 'openai', 400),
+      HttpStatus.BAD_REQUEST,
+      'invalid_request_error',
+      null,
+    ],
+    [
+      new ContextLengthError('too long', 'openai', 400),
+      HttpStatus.BAD_REQUEST,
+      'invalid_request_error',
+      'context_length_exceeded',
+    ],
+    [
+      new ModelCapabilityError('ollama', 'llama3.2', 'image input'),
+      HttpStatus.BAD_REQUEST,
+      'invalid_request_error',
+      null,
+    ],
+    [
+      new RateLimitError('slow down', 'claude'),
+      HttpStatus.TOO_MANY_REQUESTS,
+      'rate_limit_error',
+      'rate_limit_exceeded',
+    ],
+    [
+      new TimeoutError('timed out', 'claude'),
+      HttpStatus.GATEWAY_TIMEOUT,
+      'api_error',
+      null,
+    ],
+    [
+      new ProviderUnavailableError('connect ECONNREFUSED', 'ollama', 503),
+      HttpStatus.BAD_GATEWAY,
+      'api_error',
+      null,
+    ],
+    [
+      new QuotaExceededException('daily', 1000, 1200, new Date()),
+      HttpStatus.TOO_MANY_REQUESTS,
+      'rate_limit_error',
+      'insufficient_quota',
+    ],
+    [
+      new NotFoundException("The model 'x' does not exist"),
+      HttpStatus.NOT_FOUND,
+      'not_found_error',
+      null,
+    ],
+  ])('should map %p to %i %s', (exception, status, type, code) => {
+    expect(toOpenAIError(exception)).toEqual({
+      status,
+      body: {
+        error: {
+          message: expect.any(String),
+          type,
+          param: null,
+          code,
+        },
+      },
+    });
+  });
+
+  it('should hide the details of unexpected errors', () => {
+    expect(toOpenAIError(new Error('secret')).body.error).toEqual({
+      message: 'Internal server error',
+      type: 'api_error',
+      param: null,
+      code: null,
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  Post,
+  Res,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { randomUUID } from 'crypto';
+import { LLMService, LLMStreamChunk } from '@ai-solution/core/llm';
+import {
+  ApiKeyGuard,
+  AuthenticatedUser,
+  CurrentUser,
+  RateLimit,
+} from '@ai-solution/core/auth';
+import { GatewayService } from './gateway.service';
+import { ChatCompletionRequestDto } from './dto/chat-completion.dto';
+import {
+  OpenAIExceptionFilter,
+  toOpenAIError,
+} from './openai-exception.filter';
+import {
+  CompletionMeta,
+  toChatCompletion,
+  toChatCompletionChunk,
+  toOpenAIUsage,
+} from './openai-format';
+
+@Controller('v1')
+@UseGuards(ApiKeyGuard)
+@UseFilters(OpenAIExceptionFilter)
+export class ChatCompletionsController {
+  constructor(
+    private readonly gatewayService: GatewayService,
+    private readonly llmService: LLMService
+  ) {}
+
+  @Post('chat/completions')
+  @HttpCode(200)
+  @RateLimit({ points: 60, duration: 60 })
+  async create(
+    @Body() dto: ChatCompletionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Res() res: Response
+  ) {
+    if (dto.stream && dto.tools?.length) {
+      throw new BadRequestException(
+        'Streaming is not supported together with tools'
+      );
+    }
+
+    const abortController = new AbortController();
+    // Stop the upstream call when the client goes away
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    const { messages, options } = this.gatewayService.toLLMRequest(
+      dto,
+      user,
+      abortController.signal
+    );
+    const meta: CompletionMeta = {
+      id: `chatcmpl-${randomUUID()}`,
+      created: Math.floor(Date.now() / 1000),
+      model: dto.model,
+    };
+
+    if (!dto.stream) {
+      const response = await this.llmService.generateCompletion(
+        messages,
+        options
+      );
+      res.json(toChatCompletion(response, meta));
+      return;
+    }
+
+    const iterator = this.llmService
+      .streamCompletion(messages, options)
+      [Symbol.asyncIterator]();
+    // Provider, quota and validation errors surface on the first chunk and
+    // still get a proper HTTP status from the exception filter
+    let chunk: IteratorResult<LLMStreamChunk> = await iterator.next();
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (data: unknown) =>
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    send(toChatCompletionChunk(meta, { role: 'assistant', content: '' }));
+
+    try {
+      while (!chunk.done) {
+        const { delta, done, usage } = chunk.value;
+        if (delta) {
+          send(toChatCompletionChunk(meta, { content: delta }));
+        }
+        if (done) {
+          send(toChatCompletionChunk(meta, {}, 'stop'));
+          if (dto.stream_options?.include_usage) {
+            send({
+              ...toChatCompletionChunk(meta, {}),
+              choices: [],
+              usage: toOpenAIUsage(usage) ?? null,
+            });
+          }
+        }
+        chunk = await iterator.next();
+      }
+      res.write('data: [DONE]\n\n');
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        send(toOpenAIError(error).body);
+      }
+    } finally {
+      await iterator.return?.(undefined);
+    }
+
+    res.end();
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import {
+  OpenAIChatMessage,
+  OpenAIResponseFormat,
+  OpenAITool,
+  OpenAIToolChoice,
+} from '../openai.types';
+
+/**
+ * Body of `POST /v1/chat/completions`. Only the envelope is validated here;
+ * messages, tools and formats are checked while mapping them to LLMService
+ * types. Unsupported OpenAI parameters (n, logprobs, ...) are ignored.
+ */
+export class ChatCompletionRequestDto {
+  /** `provider/model`, a bare model name, or a provider name */
+  @IsString()
+  model!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  messages!: OpenAIChatMessage[];
+
+  @IsOptional()
+  @IsNumber()
+  temperature?: number;
+
+  @IsOptional()
+  @IsNumber()
+  top_p?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  max_tokens?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  max_completion_tokens?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  stream?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  stream_options?: { include_usage?: boolean };
+
+  @IsOptional()
+  @IsArray()
+  tools?: OpenAITool[];
+
+  @IsOptional()
+  tool_choice?: OpenAIToolChoice;
+
+  @IsOptional()
+  @IsObject()
+  response_format?: OpenAIResponseFormat;
+
+  @IsOptional()
+  @IsString()
+  user?: string;
+}
@@ -0,0 +1,175 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { LLMService, MockProvider } from '@ai-solution/core/llm';
+import { AuthenticatedUser, UserRole } from '@ai-solution/core/auth';
+import { GatewayService } from './gateway.service';
+import { ChatCompletionRequestDto } from './dto/chat-completion.dto';
+
+const user: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'dev@example.com',
+  firstName: 'Dev',
+  lastName: 'User',
+  role: UserRole.USER,
+  isActive: true,
+};
+
+describe('GatewayService', () => {
+  let service: GatewayService;
+  let llmService: LLMService;
+
+  beforeEach(async () => {
+    llmService = new LLMService();
+    llmService.configure({
+      defaultProvider: 'openai',
+      fallbackProviders: [],
+      retryAttempts: 1,
+      retryDelay: 0,
+      healthCheckInterval: 0,
+    });
+    llmService.registerProvider(new MockProvider({ name: 'openai' }));
+    llmService.registerProvider(new MockProvider({ name: 'claude' }));
+
+    const app = await Test.createTestingModule({
+      providers: [
+        GatewayService,
+        { provide: LLMService, useValue: llmService },
+      ],
+    }).compile();
+
+    service = app.get<GatewayService>(GatewayService);
+  });
+
+  describe('toLLMRequest', () => {
+    it('should map the OpenAI request to LLMService options', () => {
+      const signal = new AbortController().signal;
+      const dto: ChatCompletionRequestDto = {
+        model: 'claude/claude-3-5-haiku-latest',
+        messages: [
+          { role: 'developer', content: 'Be brief.' },
+          { role: 'user', content: 'Weather in Seoul?' },
+        ],
+        temperature: 0.3,
+        top_p: 0.9,
+        max_tokens: 100,
+        max_completion_tokens: 200,
+        tools: [
+          {
+            type: 'function',
+            function: { name: 'get_weather', parameters: { type: 'object' } },
+          },
+        ],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+      };
+
+      const { messages, options } = service.toLLMRequest(dto, user, signal);
+
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Weather in Seoul?' },
+      ]);
+      expect(options).toEqual({
+        provider: 'claude',
+        model: 'claude-3-5-haiku-latest',
+        temperature: 0.3,
+        topP: 0.9,
+        maxTokens: 200,
+        tools: [{ name: 'get_weather', parameters: { type: 'object' } }],
+        toolChoice: { name: 'get_weather' },
+        responseFormat: undefined,
+        signal,
+        context: {
+          userId: 'user-1',
+          role: 'user',
+          service: 'gateway-service',
+        },
+      });
+    });
+
+    it('should map response_format to a JSON response format', () => {
+      const { options } = service.toLLMRequest(
+        {
+          model: 'openai',
+          messages: [{ role: 'user', content: 'hi' }],
+          max_tokens: 50,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'answer', schema: { type: 'object' } },
+          },
+        },
+        user
+      );
+
+      expect(options).toMatchObject({
+        maxTokens: 50,
+        responseFormat: {
+          type: 'json',
+          name: 'answer',
+          schema: { type: 'object' },
+        },
+      });
+    });
+
+    it('should reject images outside user messages', () => {
+      expect(() =>
+        service.toLLMRequest(
+          {
+            model: 'openai',
+            messages: [
+              {
+                role: 'system',
+                content: [
+                  { type: 'image_url', image_url: { url: 'https://x/y.png' } },
+                ],
+              },
+            ],
+          },
+          user
+        )
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('resolveModel', () => {
+    it.each([
+      ['fast', { model: 'fast' }],
+      [
+        'claude/claude-3-5-haiku-latest',
+        { provider: 'claude', model: 'claude-3-5-haiku-latest' },
+      ],
+      ['claude/', { provider: 'claude', model: undefined }],
+      ['claude', { provider: 'claude' }],
+      ['gpt-4o-mini', { provider: 'openai', model: 'gpt-4o-mini' }],
+    ])('should resolve %s', (model, expected) => {
+      expect(service.resolveModel(model)).toEqual(expected);
+    });
+
+    it('should assume unknown models are local when Ollama is registered', () => {
+      llmService.registerProvider(new MockProvider({ name: 'ollama' }));
+
+      expect(service.resolveModel('llama3.2')).toEqual({
+        provider: 'ollama',
+        model: 'llama3.2',
+      });
+    });
+
+    it('should throw NotFoundException for an unknown model', () => {
+      expect(() => service.resolveModel('llama3.2')).toThrow(NotFoundException);
+    });
+  });
+
+  describe('listModels', () => {
+    it('should list aliases before provider models', async () => {
+      const models = await service.listModels();
+
+      expect(models[0]).toEqual({
+        id: 'fast',
+        object: 'model',
+        created: 0,
+        owned_by: 'alias',
+      });
+      expect(models.map((model) => model.id)).toContain('claude/mock-model');
+      expect(models.map((model) => model.id)).not.toContain('local');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  LLMMessage,
+  LLMRequestOptions,
+  LLMService,
+} from '@ai-solution/core/llm';
+import { AuthenticatedUser } from '@ai-solution/core/auth';
+import { ChatCompletionRequestDto } from './dto/chat-completion.dto';
+import {
+  toLLMMessages,
+  toLLMResponseFormat,
+  toLLMToolChoice,
+  toLLMTools,
+} from './openai-format';
+import { OpenAIModel } from './openai.types';
+
+@Injectable()
+export class GatewayService {
+  constructor(private readonly llmService: LLMService) {}
+
+  /**
+   * Translates an OpenAI request into LLMService arguments. Usage is metered
+   * against the API key's owner, so quotas apply as for any other service.
+   */
+  toLLMRequest(
+    dto: ChatCompletionRequestDto,
+    user: AuthenticatedUser,
+    signal?: AbortSignal
+  ): { messages: LLMMessage[]; options: LLMRequestOptions } {
+    const { provider, model } = this.resolveModel(dto.model);
+
+    return {
+      messages: toLLMMessages(dto.messages),
+      options: {
+        provider,
+        model,
+        temperature: dto.temperature,
+        topP: dto.top_p,
+        maxTokens: dto.max_completion_tokens ?? dto.max_tokens,
+        tools: toLLMTools(dto.tools),
+        toolChoice: toLLMToolChoice(dto.tool_choice),
+        responseFormat: toLLMResponseFormat(dto.response_format),
+        signal,
+        context: {
+          userId: user.id,
+          role: user.role,
+          service: 'gateway-service',
+        },
+      },
+    };
+  }
+
+  /**
+   * Accepts a model alias (e.g. `fast`), `provider/model` (e.g.
+   * `claude/claude-3-5-haiku-latest`), a provider name for its default
+   * model, or a bare model name, which is matched against the pricing table
+   * and otherwise assumed to be local.
+   */
+  resolveModel(model: string): { provider?: string; model?: string } {
+    if (model in this.llmService.getModelAliases()) {
+      // LLMService picks the provider by the alias's routing policy
+      return { model };
+    }
+
+    const providers = this.llmService.getAvailableProviders();
+
+    const slash = model.indexOf('/');
+    if (slash > 0 && providers.includes(model.slice(0, slash))) {
+      return {
+        provider: model.slice(0, slash),
+        model: model.slice(slash + 1) || undefined,
+      };
+    }
+    if (providers.includes(model)) {
+      return { provider: model };
+    }
+
+    const pricing = this.llmService.getPricing();
+    const owner = providers.find((provider) =>
+      Object.keys(pricing[provider] ?? {}).some(
+        (prefix) => prefix !== '*' && model.startsWith(prefix)
+      )
+    );
+    if (owner) {
+      return { provider: owner, model };
+    }
+    if (providers.includes('ollama')) {
+      return { provider: 'ollama', model };
+    }
+
+    throw new NotFoundException(`The model '${model}' does not exist`);
+  }
+
+  /**
+   * Model aliases served by a registered provider, then the chat models of
+   * the registered providers as `provider/model`.
+   */
+  async listModels(): Promise<OpenAIModel[]> {
+    const providers = this.llmService.getAvailableProviders();
+    const aliases = Object.entries(this.llmService.getModelAliases())
+      .filter(([, alias]) =>
+        alias.targets.some((target) => providers.includes(target.provider))
+      )
+      .map(([name]) => ({
+        id: name,
+        object: 'model' as const,
+        created: 0,
+        owned_by: 'alias',
+      }));
+    const models = await this.llmService.getModelCatalog();
+
+    return [
+      ...aliases,
+      ...models
+        .filter((model) => model.capabilities.chat !== false)
+        .map((model) => ({
+          id: `${model.provider}/${model.id}`,
+          object: 'model' as const,
+          created: 0,
+          owned_by: model.provider,
+        })),
+    ];
+  }
+}
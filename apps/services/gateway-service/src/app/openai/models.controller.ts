@@ -0,0 +1,17 @@
+import { Controller, Get, UseFilters, UseGuards } from '@nestjs/common';
+import { ApiKeyGuard } from '@ai-solution/core/auth';
+import { GatewayService } from './gateway.service';
+import { OpenAIExceptionFilter } from './openai-exception.filter';
+import { OpenAIModel } from './openai.types';
+
+@Controller('v1')
+@UseGuards(ApiKeyGuard)
+@UseFilters(OpenAIExceptionFilter)
+export class ModelsController {
+  constructor(private readonly gatewayService: GatewayService) {}
+
+  @Get('models')
+  async listModels(): Promise<{ object: 'list'; data: OpenAIModel[] }> {
+    return { object: 'list', data: await this.gatewayService.listModels() };
+  }
+}
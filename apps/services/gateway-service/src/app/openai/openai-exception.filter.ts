@@ -0,0 +1,115 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  ContextLengthError,
+  InvalidRequestError,
+  LLMProviderError,
+  ModelCapabilityError,
+  QuotaExceededException,
+  RateLimitError,
+  TimeoutError,
+} from '@ai-solution/core/llm';
+
+export interface OpenAIErrorBody {
+  error: {
+    message: string;
+    type: string;
+    param: string | null;
+    code: string | null;
+  };
+}
+
+const ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  429: 'rate_limit_error',
+};
+
+/**
+ * Maps an error to OpenAI's error status and body so SDK clients raise their
+ * usual exception types. Upstream authentication failures are reported as
+ * 502: the caller's own key was fine.
+ */
+export function toOpenAIError(exception: unknown): {
+  status: number;
+  body: OpenAIErrorBody;
+} {
+  let status: number = HttpStatus.INTERNAL_SERVER_ERROR;
+  let message = 'Internal server error';
+  let code: string | null = null;
+
+  if (exception instanceof HttpException) {
+    status = exception.getStatus();
+    const response = exception.getResponse();
+    const detail =
+      typeof response === 'string'
+        ? response
+        : (response as { message?: string | string[] }).message;
+    message = Array.isArray(detail)
+      ? detail.join('; ')
+      : detail || exception.message;
+    if (exception instanceof QuotaExceededException) {
+      code = 'insufficient_quota';
+    } else if (status === HttpStatus.UNAUTHORIZED) {
+      code = 'invalid_api_key';
+    }
+  } else if (
+    exception instanceof InvalidRequestError ||
+    exception instanceof ModelCapabilityError
+  ) {
+    status = HttpStatus.BAD_REQUEST;
+    message = exception.message;
+    code =
+      exception instanceof ContextLengthError
+        ? 'context_length_exceeded'
+        : null;
+  } else if (exception instanceof RateLimitError) {
+    status = HttpStatus.TOO_MANY_REQUESTS;
+    message = exception.message;
+    code = 'rate_limit_exceeded';
+  } else if (exception instanceof TimeoutError) {
+    status = HttpStatus.GATEWAY_TIMEOUT;
+    message = exception.message;
+  } else if (exception instanceof LLMProviderError) {
+    status = HttpStatus.BAD_GATEWAY;
+    message = exception.message;
+  }
+
+  return {
+    status,
+    body: {
+      error: {
+        message,
+        type: ERROR_TYPES[status] ?? 'api_error',
+        param: null,
+        code,
+      },
+    },
+  };
+}
+
+@Catch()
+export class OpenAIExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(OpenAIExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    const { status, body } = toOpenAIError(exception);
+
+    if (status >= 500) {
+      this.logger.error('Request failed', exception);
+    }
+    if (!response.headersSent) {
+      response.status(status).json(body);
+    }
+  }
+}
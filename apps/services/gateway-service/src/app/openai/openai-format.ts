@@ -0,0 +1,243 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  LLMContentPart,
+  LLMMessage,
+  LLMResponse,
+  LLMResponseFormat,
+  LLMToolChoice,
+  LLMToolDefinition,
+  LLMUsage,
+  getMessageText,
+} from '@ai-solution/core/llm';
+import {
+  OpenAIChatCompletion,
+  OpenAIChatCompletionChunk,
+  OpenAIChatMessage,
+  OpenAIContentPart,
+  OpenAIResponseFormat,
+  OpenAITool,
+  OpenAIToolChoice,
+  OpenAIUsage,
+} from './openai.types';
+
+const IMAGE_MEDIA_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+] as const;
+
+/** Identifies one completion across the response and all of its chunks */
+export interface CompletionMeta {
+  id: string;
+  created: number;
+  model: string;
+}
+
+export function toLLMMessages(messages: OpenAIChatMessage[]): LLMMessage[] {
+  return messages.map((message, index) => {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        return { role: 'system', content: textOf(message, index) };
+      case 'user':
+        return {
+          role: 'user',
+          content: Array.isArray(message.content)
+            ? message.content.map((part) => toContentPart(part, index))
+            : message.content ?? '',
+        };
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: textOf(message, index),
+          toolCalls: message.tool_calls?.map((call) => ({
+            id: call.id,
+            name: call.function.name,
+            arguments: parseArguments(call.function.arguments, index),
+          })),
+        };
+      case 'tool':
+        if (!message.tool_call_id) {
+          throw new BadRequestException(
+            `messages[${index}].tool_call_id is required for tool messages`
+          );
+        }
+        return {
+          role: 'tool',
+          content: textOf(message, index),
+          toolCallId: message.tool_call_id,
+          name: message.name,
+        };
+      default:
+        throw new BadRequestException(
+          `messages[${index}].role must be one of system, developer, user, assistant, tool`
+        );
+    }
+  });
+}
+
+export function toLLMTools(
+  tools?: OpenAITool[]
+): LLMToolDefinition[] | undefined {
+  return tools?.map((tool, index) => {
+    if (tool?.type !== 'function' || !tool.function?.name) {
+      throw new BadRequestException(
+        `tools[${index}] must be a function tool with a name`
+      );
+    }
+    return {
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters ?? {
+        type: 'object',
+        properties: {},
+      },
+    };
+  });
+}
+
+export function toLLMToolChoice(
+  choice?: OpenAIToolChoice
+): LLMToolChoice | undefined {
+  if (choice === undefined || typeof choice === 'string') {
+    return choice;
+  }
+  if (choice?.type === 'function' && choice.function?.name) {
+    return { name: choice.function.name };
+  }
+  throw new BadRequestException('Invalid tool_choice');
+}
+
+export function toLLMResponseFormat(
+  format?: OpenAIResponseFormat
+): LLMResponseFormat | undefined {
+  switch (format?.type) {
+    case undefined:
+    case 'text':
+      return undefined;
+    case 'json_object':
+      return { type: 'json' };
+    case 'json_schema':
+      return {
+        type: 'json',
+        name: format.json_schema?.name,
+        schema: format.json_schema?.schema,
+      };
+    default:
+      throw new BadRequestException(
+        'response_format.type must be text, json_object or json_schema'
+      );
+  }
+}
+
+export function toOpenAIUsage(usage?: LLMUsage): OpenAIUsage | undefined {
+  return usage
+    ? {
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        total_tokens: usage.totalTokens,
+      }
+    : undefined;
+}
+
+export function toChatCompletion(
+  response: LLMResponse,
+  meta: CompletionMeta
+): OpenAIChatCompletion {
+  const toolCalls = response.toolCalls?.length
+    ? response.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function' as const,
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        },
+      }))
+    : undefined;
+
+  return {
+    id: meta.id,
+    object: 'chat.completion',
+    created: meta.created,
+    model: meta.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: response.content || (toolCalls ? null : ''),
+          tool_calls: toolCalls,
+        },
+        finish_reason: toolCalls ? 'tool_calls' : 'stop',
+      },
+    ],
+    usage: toOpenAIUsage(response.usage),
+  };
+}
+
+export function toChatCompletionChunk(
+  meta: CompletionMeta,
+  delta: OpenAIChatCompletionChunk['choices'][number]['delta'],
+  finishReason: 'stop' | null = null
+): OpenAIChatCompletionChunk {
+  return {
+    id: meta.id,
+    object: 'chat.completion.chunk',
+    created: meta.created,
+    model: meta.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+function textOf(message: OpenAIChatMessage, index: number): string {
+  if (!Array.isArray(message.content)) {
+    return message.content ?? '';
+  }
+  if (message.content.some((part) => part?.type !== 'text')) {
+    throw new BadRequestException(
+      `messages[${index}]: only user messages may contain images`
+    );
+  }
+  return getMessageText(message.content as LLMContentPart[]);
+}
+
+function toContentPart(part: OpenAIContentPart, index: number): LLMContentPart {
+  if (part?.type === 'text') {
+    return { type: 'text', text: part.text };
+  }
+  if (part?.type !== 'image_url' || !part.image_url?.url) {
+    throw new BadRequestException(
+      `messages[${index}].content parts must be text or image_url`
+    );
+  }
+
+  const dataUrl = /^data:([^;]+);base64,(.*)$/s.exec(part.image_url.url);
+  if (!dataUrl) {
+    return { type: 'image', source: { type: 'url', url: part.image_url.url } };
+  }
+
+  const mediaType = IMAGE_MEDIA_TYPES.find((type) => type === dataUrl[1]);
+  if (!mediaType) {
+    throw new BadRequestException(
+      `messages[${index}]: unsupported image type ${dataUrl[1]}`
+    );
+  }
+  return {
+    type: 'image',
+    source: { type: 'base64', mediaType, data: dataUrl[2] },
+  };
+}
+
+function parseArguments(
+  args: string | undefined,
+  index: number
+): Record<string, unknown> {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    throw new BadRequestException(
+      `messages[${index}].tool_calls contain invalid JSON arguments`
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ChatCompletionsController } from './chat-completions.controller';
+import { ModelsController } from './models.controller';
+import { GatewayService } from './gateway.service';
+
+@Module({
+  controllers: [ChatCompletionsController, ModelsController],
+  providers: [GatewayService],
+})
+export class OpenAIModule {}
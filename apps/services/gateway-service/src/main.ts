@@ -0,0 +1,23 @@
+/**
+ * OpenAI-compatible gateway: any OpenAI SDK pointed at
+ * http://localhost:3002/v1 talks to the configured providers.
+ */
+
+import { Logger, ValidationPipe } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app/app.module';
+
+async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  // No global prefix: clients expect the API under /v1
+  app.useGlobalPipes(
+    new ValidationPipe({
+      transform: true,
+    })
+  );
+  const port = process.env.PORT || 3002;
+  await app.listen(port);
+  Logger.log(`🚀 Gateway is running on: http://localhost:${port}/v1`);
+}
+
+bootstrap();
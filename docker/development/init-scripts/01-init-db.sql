@@ -7,6 +7,7 @@
 -- Create extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+CREATE EXTENSION IF NOT EXISTS "vector";
 
 -- Create schemas for different services (optional)
 -- CREATE SCHEMA IF NOT EXISTS auth;
@@ -0,0 +1,124 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { User } from './entities/user.entity';
+
+const KEY_PREFIX = 'ais-';
+// Skip the lastUsedAt write when the key was used this recently
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: User['role'];
+  isActive: boolean;
+}
+
+@Injectable()
+export class ApiKeyService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private apiKeyRepository: Repository<ApiKey>
+  ) {}
+
+  /**
+   * Issues a new key for the user. The plaintext key is only returned here;
+   * afterwards it cannot be recovered, only revoked.
+   */
+  async create(
+    userId: string,
+    name: string,
+    expiresAt?: Date
+  ): Promise<{ key: string; apiKey: ApiKey }> {
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+    const { identifiers } = await this.apiKeyRepository.insert({
+      userId,
+      name,
+      prefix: key.slice(0, 12),
+      keyHash: this.hash(key),
+      expiresAt,
+    });
+
+    // Reloaded so the response leaves out the hash (select: false)
+    const apiKey = await this.apiKeyRepository.findOneByOrFail({
+      id: identifiers[0]['id'],
+    });
+    return { key, apiKey };
+  }
+
+  async findAllForUser(userId: string): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    const result = await this.apiKeyRepository.update(
+      { id, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    if (!result.affected) {
+      throw new NotFoundException('API key not found');
+    }
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.apiKeyRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+  }
+
+  /**
+   * Resolves a presented key to its owner, in the same shape JwtStrategy puts
+   * on the request, so `@CurrentUser()` works with either credential.
+   */
+  async validate(key: string): Promise<AuthenticatedUser> {
+    const apiKey = key.startsWith(KEY_PREFIX)
+      ? await this.apiKeyRepository.findOne({
+          where: { keyHash: this.hash(key) },
+          relations: { user: true },
+        })
+      : null;
+
+    const now = new Date();
+    if (
+      !apiKey?.user ||
+      !apiKey.user.isActive ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= now)
+    ) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_PRECISION_MS
+    ) {
+      await this.apiKeyRepository.update(apiKey.id, { lastUsedAt: now });
+    }
+
+    const { user } = apiKey;
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      isActive: user.isActive,
+    };
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey } from './entities/api-key.entity';
+import { UserRole } from './entities/user.entity';
+import {
+  LoginDto,
+  RegisterDto,
+  RefreshTokenDto,
+  AuthResponseDto,
+} from './dto/auth.dto';
+import { CreateApiKeyDto } from './dto/api-key.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { Public } from './decorators/public.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+/**
+ * Ready-made auth routes. Registered only when `AuthModule.forRoot` is called
+ * with `enableController: true`.
+ */
+@Controller('auth')
+@UseGuards(JwtAuthGuard)
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly apiKeyService: ApiKeyService
+  ) {}
+
+  @Public()
+  @Post('register')
+  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
+    // Self-registration never grants an elevated role
+    return this.authService.register({ ...registerDto, role: UserRole.USER });
+  }
+
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
+    return this.authService.login(loginDto);
+  }
+
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refreshToken(refreshTokenDto.refresh_token);
+  }
+
+  @Get('me')
+  me(@CurrentUser() user: AuthResponseDto['user']) {
+    return user;
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @CurrentUser('id') userId: string
+  ) {
+    await this.authService.logout(refreshTokenDto.refresh_token, userId);
+    return { success: true };
+  }
+
+  /** Returns the plaintext key once; store it, it cannot be shown again */
+  @Post('api-keys')
+  async createApiKey(
+    @Body() dto: CreateApiKeyDto,
+    @CurrentUser('id') userId: string
+  ): Promise<{ key: string; apiKey: ApiKey }> {
+    return this.apiKeyService.create(
+      userId,
+      dto.name,
+      dto.expiresAt ? new Date(dto.expiresAt) : undefined
+    );
+  }
+
+  @Get('api-keys')
+  async listApiKeys(@CurrentUser('id') userId: string): Promise<ApiKey[]> {
+    return this.apiKeyService.findAllForUser(userId);
+  }
+
+  @Delete('api-keys/:id')
+  async revokeApiKey(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') userId: string
+  ) {
+    await this.apiKeyService.revoke(userId, id);
+    return { success: true };
+  }
+}
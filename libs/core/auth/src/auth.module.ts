@@ -4,16 +4,26 @@ import { PassportModule } from '@nestjs/passport';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { RefreshTokenService } from './refresh-token.service';
+import { ApiKeyService } from './api-key.service';
 import { User } from './entities/user.entity';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { ApiKey } from './entities/api-key.entity';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { ApiKeyGuard } from './guards/api-key.guard';
 
 export interface AuthModuleOptions {
   secret?: string;
   expiresIn?: string;
   refreshExpiresIn?: string;
+  /** Signs refresh tokens; defaults to JWT_REFRESH_SECRET, then the access token secret */
+  refreshSecret?: string;
+  /** Exposes the built-in /auth routes (register, login, refresh, me, logout) */
+  enableController?: boolean;
 }
 
 @Global()
@@ -22,10 +32,11 @@ export class AuthModule {
   static forRoot(options?: AuthModuleOptions): DynamicModule {
     return {
       module: AuthModule,
+      controllers: options?.enableController ? [AuthController] : [],
       imports: [
         ConfigModule,
         PassportModule,
-        TypeOrmModule.forFeature([User]),
+        TypeOrmModule.forFeature([User, RefreshToken, ApiKey]),
         JwtModule.registerAsync({
           imports: [ConfigModule],
           inject: [ConfigService],
@@ -45,10 +56,13 @@ export class AuthModule {
       ],
       providers: [
         AuthService,
+        RefreshTokenService,
+        ApiKeyService,
         JwtStrategy,
         LocalStrategy,
         JwtAuthGuard,
         RolesGuard,
+        ApiKeyGuard,
         {
           provide: 'AUTH_OPTIONS',
           useValue: options || {},
@@ -56,8 +70,11 @@ export class AuthModule {
       ],
       exports: [
         AuthService,
+        RefreshTokenService,
+        ApiKeyService,
         JwtAuthGuard,
         RolesGuard,
+        ApiKeyGuard,
         TypeOrmModule,
       ],
     };
@@ -69,13 +86,15 @@ export class AuthModule {
       ...args: any[]
     ) => Promise<AuthModuleOptions> | AuthModuleOptions;
     inject?: any[];
+    enableController?: boolean;
   }): DynamicModule {
     return {
       module: AuthModule,
+      controllers: options.enableController ? [AuthController] : [],
       imports: [
         ConfigModule,
         PassportModule,
-        TypeOrmModule.forFeature([User]),
+        TypeOrmModule.forFeature([User, RefreshToken, ApiKey]),
         JwtModule.registerAsync({
           imports: [ConfigModule, ...(options.imports || [])],
           inject: [ConfigService, ...(options.inject || [])],
@@ -104,10 +123,13 @@ export class AuthModule {
       ],
       providers: [
         AuthService,
+        RefreshTokenService,
+        ApiKeyService,
         JwtStrategy,
         LocalStrategy,
         JwtAuthGuard,
         RolesGuard,
+        ApiKeyGuard,
         {
           provide: 'AUTH_OPTIONS',
           useFactory: options.useFactory || (() => ({})),
@@ -116,8 +138,11 @@ export class AuthModule {
       ],
       exports: [
         AuthService,
+        RefreshTokenService,
+        ApiKeyService,
         JwtAuthGuard,
         RolesGuard,
+        ApiKeyGuard,
         TypeOrmModule,
       ],
     };
@@ -0,0 +1,94 @@
+import { Test } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import * as bcrypt from 'bcrypt';
+import { AuthService } from './auth.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { ApiKeyService } from './api-key.service';
+import { User, UserRole } from './entities/user.entity';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+  let user: User;
+  const userRepository = { findOne: jest.fn(), update: jest.fn() };
+  const refreshTokenService = { issue: jest.fn() };
+
+  beforeEach(async () => {
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'dev@example.com',
+      password: await bcrypt.hash('secret-password', 4),
+      firstName: 'Dev',
+      lastName: 'User',
+      role: UserRole.USER,
+      isActive: true,
+    });
+    userRepository.findOne.mockReset().mockResolvedValue(user);
+    userRepository.update.mockReset();
+    refreshTokenService.issue.mockReset().mockResolvedValue('refresh-token');
+
+    const app = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [
+        AuthService,
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: RefreshTokenService, useValue: refreshTokenService },
+        { provide: ApiKeyService, useValue: {} },
+      ],
+    }).compile();
+
+    service = app.get<AuthService>(AuthService);
+    jwtService = app.get<JwtService>(JwtService);
+  });
+
+  describe('login', () => {
+    it('should return an access token, a refresh token and the user', async () => {
+      const response = await service.login({
+        email: 'dev@example.com',
+        password: 'secret-password',
+      });
+
+      expect(response).toEqual({
+        access_token: expect.any(String),
+        refresh_token: 'refresh-token',
+        user: {
+          id: 'user-1',
+          email: 'dev@example.com',
+          firstName: 'Dev',
+          lastName: 'User',
+          role: UserRole.USER,
+          isActive: true,
+        },
+      });
+      expect(jwtService.verify(response.access_token)).toMatchObject({
+        sub: 'user-1',
+        email: 'dev@example.com',
+        role: UserRole.USER,
+      });
+      expect(refreshTokenService.issue).toHaveBeenCalledWith('user-1');
+      expect(userRepository.update).toHaveBeenCalledWith('user-1', {
+        lastLoginAt: expect.any(Date),
+      });
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(
+        service.login({ email: 'dev@example.com', password: 'wrong-password' })
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(refreshTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown or inactive user', async () => {
+      userRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.login({ email: 'dev@example.com', password: 'secret-password' })
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(userRepository.findOne).toHaveBeenCalledWith({
+        where: { email: 'dev@example.com', isActive: true },
+      });
+    });
+  });
+});
@@ -5,12 +5,13 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
-import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from './entities/user.entity';
 import { LoginDto, RegisterDto, AuthResponseDto } from './dto/auth.dto';
 import { JwtPayload } from './strategies/jwt.strategy';
+import { RefreshTokenService } from './refresh-token.service';
+import { ApiKeyService } from './api-key.service';
 
 @Injectable()
 export class AuthService {
@@ -18,7 +19,8 @@ export class AuthService {
     @InjectRepository(User)
     private userRepository: Repository<User>,
     private jwtService: JwtService,
-    private configService: ConfigService
+    private refreshTokenService: RefreshTokenService,
+    private apiKeyService: ApiKeyService
   ) {}
 
   async validateUser(email: string, password: string): Promise<any> {
@@ -53,9 +55,7 @@ export class AuthService {
     };
 
     const accessToken = this.jwtService.sign(payload);
-    const refreshToken = this.jwtService.sign(payload, {
-      expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN', '7d'),
-    });
+    const refreshToken = await this.refreshTokenService.issue(user.id);
 
     return {
       access_token: accessToken,
@@ -90,9 +90,7 @@ export class AuthService {
     };
 
     const accessToken = this.jwtService.sign(payload);
-    const refreshToken = this.jwtService.sign(payload, {
-      expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN', '7d'),
-    });
+    const refreshToken = await this.refreshTokenService.issue(savedUser.id);
 
     return {
       access_token: accessToken,
@@ -108,27 +106,35 @@ export class AuthService {
     };
   }
 
-  async refreshToken(refreshToken: string): Promise<{ access_token: string }> {
-    try {
-      const payload = this.jwtService.verify(refreshToken);
-      const user = await this.findUserById(payload.sub);
+  /**
+   * Exchanges a refresh token for a new access token and a rotated refresh
+   * token. The presented refresh token cannot be used again.
+   */
+  async refreshToken(
+    refreshToken: string
+  ): Promise<{ access_token: string; refresh_token: string }> {
+    const rotated = await this.refreshTokenService.rotate(refreshToken);
+    const user = await this.findUserById(rotated.userId);
+
+    if (!user || !user.isActive) {
+      await this.refreshTokenService.revokeAllForUser(rotated.userId);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
 
-      if (!user || !user.isActive) {
-        throw new UnauthorizedException('Invalid refresh token');
-      }
+    const newPayload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+    };
 
-      const newPayload: JwtPayload = {
-        sub: user.id,
-        email: user.email,
-        role: user.role,
-      };
+    return {
+      access_token: this.jwtService.sign(newPayload),
+      refresh_token: rotated.refreshToken,
+    };
+  }
 
-      return {
-        access_token: this.jwtService.sign(newPayload),
-      };
-    } catch (error) {
-      throw new UnauthorizedException('Invalid refresh token');
-    }
+  async logout(refreshToken: string, userId: string): Promise<void> {
+    await this.refreshTokenService.revoke(refreshToken, userId);
   }
 
   async findUserById(id: string): Promise<User | null> {
@@ -162,5 +168,7 @@ export class AuthService {
     }
 
     await this.userRepository.update(id, { isActive: false });
+    await this.refreshTokenService.revokeAllForUser(id);
+    await this.apiKeyService.revokeAllForUser(id);
   }
 }
\ No newline at end of file
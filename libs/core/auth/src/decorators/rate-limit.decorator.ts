@@ -0,0 +1,27 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { RateLimitGuard } from '../guards/rate-limit.guard';
+
+export interface RateLimitOptions {
+  /** Requests allowed per window */
+  points: number;
+  /** Window length in seconds */
+  duration: number;
+  /**
+   * 'user' counts per authenticated user and falls back to the client IP
+   * for anonymous requests; 'ip' always counts per IP (default 'user')
+   */
+  by?: 'user' | 'ip';
+}
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * Limits how often a route can be called. Runs after class-level guards, so
+ * with `@UseGuards(JwtAuthGuard)` on the controller the limit applies per
+ * user. Requires `RateLimitModule`.
+ */
+export const RateLimit = (options: RateLimitOptions) =>
+  applyDecorators(
+    SetMetadata(RATE_LIMIT_KEY, options),
+    UseGuards(RateLimitGuard)
+  );
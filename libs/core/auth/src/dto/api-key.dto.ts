@@ -0,0 +1,12 @@
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  /** ISO 8601; the key never expires when omitted */
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
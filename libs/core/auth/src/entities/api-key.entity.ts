@@ -0,0 +1,54 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Long-lived credential for programmatic clients (e.g. OpenAI SDKs pointed at
+ * the gateway). Only a hash of the key is stored; the prefix identifies it in
+ * listings.
+ */
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt!: Date;
+
+  @Index()
+  @Column('uuid')
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  @Column({ length: 100 })
+  name!: string;
+
+  @Column({ length: 16 })
+  prefix!: string;
+
+  @Index({ unique: true })
+  @Column({ length: 64, select: false })
+  keyHash!: string;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  expiresAt?: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastUsedAt?: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  revokedAt?: Date;
+}
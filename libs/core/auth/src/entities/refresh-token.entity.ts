@@ -0,0 +1,54 @@
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Server-side record of an issued refresh token. Only a hash of the token is
+ * stored; the id doubles as the token's `jti` claim. Tokens issued by rotating
+ * one another share a `familyId` so a replayed token can revoke the chain.
+ */
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryColumn('uuid')
+  id!: string;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt!: Date;
+
+  @Index()
+  @Column('uuid')
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  @Index()
+  @Column('uuid')
+  familyId!: string;
+
+  @Column({ length: 64 })
+  tokenHash!: string;
+
+  @Column({ type: 'timestamp with time zone' })
+  expiresAt!: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  usedAt?: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  revokedAt?: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  replacedById?: string;
+}
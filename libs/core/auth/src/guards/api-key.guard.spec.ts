@@ -0,0 +1,173 @@
+import { Test } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeyService } from '../api-key.service';
+import { ApiKey } from '../entities/api-key.entity';
+import { User, UserRole } from '../entities/user.entity';
+
+/** Keeps API keys in memory, joined to a fixed set of users */
+class InMemoryApiKeyRepository {
+  readonly records = new Map<string, ApiKey>();
+
+  constructor(private readonly users: Map<string, User>) {}
+
+  async insert(values: Partial<ApiKey>) {
+    const id = randomUUID();
+    this.records.set(id, { ...values, id, createdAt: new Date() } as ApiKey);
+    return { identifiers: [{ id }] };
+  }
+
+  async findOneByOrFail({ id }: { id: string }) {
+    // keyHash is a select: false column
+    const record: Partial<ApiKey> = { ...this.records.get(id) };
+    delete record.keyHash;
+    return record;
+  }
+
+  async findOne({ where }: { where: { keyHash: string } }) {
+    const record = [...this.records.values()].find(
+      (candidate) => candidate.keyHash === where.keyHash
+    );
+    return record && { ...record, user: this.users.get(record.userId) };
+  }
+
+  async update(
+    criteria: string | Record<string, unknown>,
+    patch: Partial<ApiKey>
+  ) {
+    const matches = [...this.records.values()].filter((record) =>
+      typeof criteria === 'string'
+        ? record.id === criteria
+        : Object.entries(criteria).every(([key, value]) =>
+            value instanceof FindOperator && value.type === 'isNull'
+              ? record[key as keyof ApiKey] == null
+              : record[key as keyof ApiKey] === value
+          )
+    );
+    matches.forEach((record) => Object.assign(record, patch));
+    return { affected: matches.length };
+  }
+}
+
+describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  let apiKeyService: ApiKeyService;
+  let repository: InMemoryApiKeyRepository;
+  let user: User;
+
+  beforeEach(async () => {
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'dev@example.com',
+      firstName: 'Dev',
+      lastName: 'User',
+      role: UserRole.USER,
+      isActive: true,
+    });
+    repository = new InMemoryApiKeyRepository(new Map([[user.id, user]]));
+
+    const app = await Test.createTestingModule({
+      providers: [
+        ApiKeyGuard,
+        ApiKeyService,
+        { provide: getRepositoryToken(ApiKey), useValue: repository },
+      ],
+    }).compile();
+
+    guard = app.get<ApiKeyGuard>(ApiKeyGuard);
+    apiKeyService = app.get<ApiKeyService>(ApiKeyService);
+  });
+
+  /** Runs the guard on a request with the given headers */
+  async function authenticate(headers: Record<string, string>) {
+    const request: { headers: Record<string, string>; user?: unknown } = {
+      headers,
+    };
+    const context = new ExecutionContextHost(
+      [request, {}, jest.fn()],
+      ApiKeyGuard,
+      ApiKeyGuard.prototype.canActivate
+    );
+    context.setType('http');
+
+    await guard.canActivate(context);
+    return request.user;
+  }
+
+  it('should store only a hash of the issued key', async () => {
+    const { key, apiKey } = await apiKeyService.create(user.id, 'ci');
+
+    expect(key).toMatch(/^ais-/);
+    expect(apiKey).toMatchObject({ prefix: key.slice(0, 12), name: 'ci' });
+    expect(apiKey).not.toHaveProperty('keyHash');
+    const [record] = repository.records.values();
+    expect(record.keyHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.keyHash).not.toContain(key);
+  });
+
+  it.each([
+    ['a bearer token', (key: string) => ({ authorization: `Bearer ${key}` })],
+    ['the X-API-Key header', (key: string) => ({ 'x-api-key': key })],
+  ])('should authenticate a key sent as %s', async (_name, headersFor) => {
+    const { key } = await apiKeyService.create(user.id, 'ci');
+
+    const authenticated = await authenticate(headersFor(key));
+
+    expect(authenticated).toEqual({
+      id: 'user-1',
+      email: 'dev@example.com',
+      firstName: 'Dev',
+      lastName: 'User',
+      role: UserRole.USER,
+      isActive: true,
+    });
+    const [record] = repository.records.values();
+    expect(record.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject a revoked key', async () => {
+    const { key, apiKey } = await apiKeyService.create(user.id, 'ci');
+    await apiKeyService.revoke(user.id, apiKey.id);
+
+    await expect(
+      authenticate({ authorization: `Bearer ${key}` })
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject an expired key', async () => {
+    const { key } = await apiKeyService.create(
+      user.id,
+      'ci',
+      new Date(Date.now() - 1000)
+    );
+
+    await expect(
+      authenticate({ authorization: `Bearer ${key}` })
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject the key of a deactivated user', async () => {
+    const { key } = await apiKeyService.create(user.id, 'ci');
+    user.isActive = false;
+
+    await expect(
+      authenticate({ authorization: `Bearer ${key}` })
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it.each([
+    ['a missing key', {}],
+    ['an unknown key', { authorization: 'Bearer ais-unknown' }],
+    ['a JWT in place of a key', { authorization: 'Bearer eyJhbGciOi.x.y' }],
+  ])('should reject %s', async (_name, headers) => {
+    await apiKeyService.create(user.id, 'ci');
+
+    await expect(authenticate(headers)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ApiKeyService } from '../api-key.service';
+
+/**
+ * Authenticates requests by API key, sent as `Authorization: Bearer <key>`
+ * (as OpenAI clients do) or in the `X-API-Key` header.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeyService: ApiKeyService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const authorization: string | undefined = request.headers.authorization;
+    const key =
+      (authorization?.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length).trim()
+        : undefined) || request.headers['x-api-key'];
+
+    if (!key) {
+      throw new UnauthorizedException('Missing API key');
+    }
+
+    request.user = await this.apiKeyService.validate(key);
+    return true;
+  }
+}
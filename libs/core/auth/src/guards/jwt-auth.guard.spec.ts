@@ -0,0 +1,137 @@
+import { Test } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { JwtStrategy } from '../strategies/jwt.strategy';
+import { AuthService } from '../auth.service';
+import { Public } from '../decorators/public.decorator';
+import { UserRole } from '../entities/user.entity';
+
+class TestController {
+  @Public()
+  health() {
+    return 'ok';
+  }
+
+  profile() {
+    return 'me';
+  }
+}
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+  let jwtService: JwtService;
+  const authService = { findUserById: jest.fn() };
+  const user = {
+    id: 'user-1',
+    email: 'dev@example.com',
+    firstName: 'Dev',
+    lastName: 'User',
+    role: UserRole.USER,
+    isActive: true,
+  };
+
+  beforeEach(async () => {
+    authService.findUserById.mockReset().mockResolvedValue(user);
+
+    const app = await Test.createTestingModule({
+      imports: [PassportModule, JwtModule.register({ secret: 'test-secret' })],
+      providers: [
+        JwtAuthGuard,
+        JwtStrategy,
+        { provide: AuthService, useValue: authService },
+        { provide: ConfigService, useValue: { get: () => 'test-secret' } },
+      ],
+    }).compile();
+
+    guard = app.get<JwtAuthGuard>(JwtAuthGuard);
+    jwtService = app.get<JwtService>(JwtService);
+  });
+
+  /** An HTTP context for a TestController route with the given bearer token */
+  function contextFor(
+    handler: keyof TestController,
+    token?: string
+  ): { context: ExecutionContextHost; request: Record<string, unknown> } {
+    const request = {
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    };
+    const context = new ExecutionContextHost(
+      [request, {}, jest.fn()],
+      TestController,
+      TestController.prototype[handler]
+    );
+    context.setType('http');
+    return { context, request };
+  }
+
+  it('should let public routes through without a token', () => {
+    const { context } = contextFor('health');
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+
+  it('should authenticate a valid access token', async () => {
+    const token = jwtService.sign({
+      sub: 'user-1',
+      email: 'dev@example.com',
+      role: UserRole.USER,
+    });
+    const { context, request } = contextFor('profile', token);
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request['user']).toEqual(user);
+    expect(authService.findUserById).toHaveBeenCalledWith('user-1');
+  });
+
+  it('should reject a request without a token', async () => {
+    const { context } = contextFor('profile');
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+  });
+
+  it('should reject a token signed with another secret', async () => {
+    const token = jwtService.sign(
+      { sub: 'user-1', email: 'dev@example.com', role: UserRole.USER },
+      { secret: 'other-secret' }
+    );
+    const { context } = contextFor('profile', token);
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+  });
+
+  it('should reject a refresh token used as an access token', async () => {
+    const token = jwtService.sign({
+      sub: 'user-1',
+      email: 'dev@example.com',
+      role: UserRole.USER,
+      type: 'refresh',
+    });
+    const { context } = contextFor('profile', token);
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+  });
+
+  it('should reject a token of a deactivated user', async () => {
+    authService.findUserById.mockResolvedValue(null);
+    const token = jwtService.sign({
+      sub: 'user-1',
+      email: 'dev@example.com',
+      role: UserRole.USER,
+    });
+    const { context } = contextFor('profile', token);
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { Test } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from '../rate-limit.service';
+import { RateLimit } from '../decorators/rate-limit.decorator';
+
+class TestController {
+  @RateLimit({ points: 2, duration: 60 })
+  chat() {
+    return 'ok';
+  }
+
+  @RateLimit({ points: 1, duration: 60, by: 'ip' })
+  signup() {
+    return 'ok';
+  }
+
+  health() {
+    return 'ok';
+  }
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+
+  beforeEach(async () => {
+    // Without a Redis URL the service counts in memory
+    const app = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        RateLimitService,
+        { provide: 'RATE_LIMIT_OPTIONS', useValue: {} },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    guard = app.get<RateLimitGuard>(RateLimitGuard);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /** Runs the guard for a TestController route and records the headers */
+  async function call(
+    handler: keyof TestController,
+    request: { ip: string; user?: { id: string } }
+  ) {
+    const headers: Record<string, unknown> = {};
+    const response = {
+      setHeader: (name: string, value: unknown) => (headers[name] = value),
+    };
+    const context = new ExecutionContextHost(
+      [request, response, jest.fn()],
+      TestController,
+      TestController.prototype[handler]
+    );
+    context.setType('http');
+
+    const result = await guard
+      .canActivate(context)
+      .catch((error: unknown) => error);
+    return { result, headers };
+  }
+
+  it('should let routes without a limit through', async () => {
+    const { result, headers } = await call('health', { ip: '10.0.0.1' });
+
+    expect(result).toBe(true);
+    expect(headers).toEqual({});
+  });
+
+  it('should report the remaining requests', async () => {
+    const { result, headers } = await call('chat', { ip: '10.0.0.1' });
+
+    expect(result).toBe(true);
+    expect(headers).toEqual({
+      'RateLimit-Limit': 2,
+      'RateLimit-Remaining': 1,
+      'RateLimit-Reset': 60,
+    });
+  });
+
+  it('should answer 429 with Retry-After once the limit is used up', async () => {
+    const user = { id: 'user-1' };
+    await call('chat', { ip: '10.0.0.1', user });
+    await call('chat', { ip: '10.0.0.1', user });
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 15_000);
+    const { result, headers } = await call('chat', { ip: '10.0.0.1', user });
+
+    expect(result).toBeInstanceOf(HttpException);
+    expect((result as HttpException).getStatus()).toBe(
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+    expect(headers).toMatchObject({
+      'RateLimit-Remaining': 0,
+      'Retry-After': 45,
+    });
+  });
+
+  it('should count per user rather than per IP by default', async () => {
+    await call('chat', { ip: '10.0.0.1', user: { id: 'user-1' } });
+    await call('chat', { ip: '10.0.0.1', user: { id: 'user-1' } });
+
+    const { result } = await call('chat', {
+      ip: '10.0.0.1',
+      user: { id: 'user-2' },
+    });
+
+    expect(result).toBe(true);
+  });
+
+  it('should count per IP when configured so', async () => {
+    await call('signup', { ip: '10.0.0.1', user: { id: 'user-1' } });
+
+    const sameIp = await call('signup', {
+      ip: '10.0.0.1',
+      user: { id: 'user-2' },
+    });
+    const otherIp = await call('signup', { ip: '10.0.0.2' });
+
+    expect(sameIp.result).toBeInstanceOf(HttpException);
+    expect(otherIp.result).toBe(true);
+  });
+
+  it('should open a new window once the old one expires', async () => {
+    await call('signup', { ip: '10.0.0.1' });
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+    const { result } = await call('signup', { ip: '10.0.0.1' });
+
+    expect(result).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  RATE_LIMIT_KEY,
+  RateLimitOptions,
+} from '../decorators/rate-limit.decorator';
+import { RateLimitService } from '../rate-limit.service';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private rateLimitService: RateLimitService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()]
+    );
+
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+
+    const subject =
+      options.by !== 'ip' && request.user?.id
+        ? `user:${request.user.id}`
+        : `ip:${request.ip}`;
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+
+    const result = await this.rateLimitService.consume(
+      `${route}:${subject}`,
+      options.points,
+      options.duration
+    );
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((result.resetAt.getTime() - Date.now()) / 1000)
+    );
+
+    // IETF draft RateLimit header fields
+    response.setHeader('RateLimit-Limit', result.limit);
+    response.setHeader('RateLimit-Remaining', result.remaining);
+    response.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (!result.allowed) {
+      response.setHeader('Retry-After', resetSeconds);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: `Too many requests, retry in ${resetSeconds}s`,
+        },
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+
+    return true;
+  }
+}
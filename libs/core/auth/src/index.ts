@@ -1,11 +1,22 @@
 export * from './auth.module';
 export * from './auth.service';
+export * from './auth.controller';
+export * from './refresh-token.service';
+export * from './api-key.service';
+export * from './rate-limit.module';
+export * from './rate-limit.service';
 export * from './entities/user.entity';
+export * from './entities/refresh-token.entity';
+export * from './entities/api-key.entity';
 export * from './dto/auth.dto';
+export * from './dto/api-key.dto';
 export * from './guards/jwt-auth.guard';
 export * from './guards/roles.guard';
+export * from './guards/rate-limit.guard';
+export * from './guards/api-key.guard';
 export * from './decorators/current-user.decorator';
 export * from './decorators/public.decorator';
 export * from './decorators/roles.decorator';
+export * from './decorators/rate-limit.decorator';
 export * from './strategies/jwt.strategy';
 export * from './strategies/local.strategy';
\ No newline at end of file
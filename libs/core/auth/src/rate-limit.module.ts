@@ -0,0 +1,47 @@
+import { DynamicModule, Module, Global } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { RateLimitService, RateLimitModuleOptions } from './rate-limit.service';
+import { RateLimitGuard } from './guards/rate-limit.guard';
+
+@Global()
+@Module({})
+export class RateLimitModule {
+  static forRoot(options?: RateLimitModuleOptions): DynamicModule {
+    return {
+      module: RateLimitModule,
+      imports: [ConfigModule],
+      providers: [
+        RateLimitService,
+        RateLimitGuard,
+        {
+          provide: 'RATE_LIMIT_OPTIONS',
+          useValue: options || {},
+        },
+      ],
+      exports: [RateLimitService, RateLimitGuard],
+    };
+  }
+
+  static forRootAsync(options: {
+    imports?: any[];
+    useFactory?: (
+      ...args: any[]
+    ) => Promise<RateLimitModuleOptions> | RateLimitModuleOptions;
+    inject?: any[];
+  }): DynamicModule {
+    return {
+      module: RateLimitModule,
+      imports: [ConfigModule, ...(options.imports || [])],
+      providers: [
+        RateLimitService,
+        RateLimitGuard,
+        {
+          provide: 'RATE_LIMIT_OPTIONS',
+          useFactory: options.useFactory || (() => ({})),
+          inject: options.inject || [],
+        },
+      ],
+      exports: [RateLimitService, RateLimitGuard],
+    };
+  }
+}
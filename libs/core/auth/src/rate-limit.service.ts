@@ -0,0 +1,170 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient } from 'redis';
+
+export interface RateLimitModuleOptions {
+  /** Defaults to REDIS_URL, then REDIS_HOST/PORT/PASSWORD */
+  redisUrl?: string;
+  /** Prefix for Redis keys (default 'rate-limit:') */
+  keyPrefix?: string;
+}
+
+export interface RateLimitResult {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  allowed: boolean;
+}
+
+type RedisClient = ReturnType<typeof createClient>;
+
+interface MemoryWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window request counters. Counts in Redis when it is configured so
+ * limits hold across instances, and in process memory when it is not or
+ * while Redis is unreachable.
+ */
+@Injectable()
+export class RateLimitService implements OnModuleDestroy {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly client?: RedisClient;
+  private readonly keyPrefix: string;
+  private readonly windows = new Map<string, MemoryWindow>();
+  private unavailableLogged = false;
+  private lastSweep = Date.now();
+
+  constructor(
+    @Inject('RATE_LIMIT_OPTIONS') options: RateLimitModuleOptions,
+    configService: ConfigService
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'rate-limit:';
+
+    const redisHost = configService.get<string>('REDIS_HOST');
+    const redisPassword = configService.get<string>('REDIS_PASSWORD');
+    const redisUrl =
+      options.redisUrl ||
+      configService.get<string>('REDIS_URL') ||
+      (redisHost
+        ? `redis://${
+            redisPassword ? `:${encodeURIComponent(redisPassword)}@` : ''
+          }${redisHost}:${configService.get<string>('REDIS_PORT') || 6379}`
+        : undefined);
+
+    if (redisUrl) {
+      this.client = createClient({
+        url: redisUrl,
+        disableOfflineQueue: true,
+        socket: {
+          reconnectStrategy: (retries) => Math.min(retries * 1000, 30000),
+        },
+      });
+
+      // Errors repeat on every reconnect attempt; log once per outage
+      this.client.on('error', (error) => {
+        if (!this.unavailableLogged) {
+          this.unavailableLogged = true;
+          this.logger.warn(
+            `Redis unavailable, counting rate limits in memory: ${error.message}`
+          );
+        }
+      });
+      this.client.on('ready', () => {
+        this.unavailableLogged = false;
+      });
+
+      this.client.connect().catch(() => undefined);
+    }
+  }
+
+  /** Counts one request against `key` and reports the window state. */
+  async consume(
+    key: string,
+    points: number,
+    durationSeconds: number
+  ): Promise<RateLimitResult> {
+    const durationMs = durationSeconds * 1000;
+    let count: number;
+    let resetAt: number;
+
+    const client = this.client;
+    if (client?.isReady) {
+      try {
+        ({ count, resetAt } = await this.consumeRedis(client, key, durationMs));
+      } catch (error) {
+        this.logger.warn(
+          `Rate limit lookup failed, counting in memory: ${
+            (error as Error).message
+          }`
+        );
+        ({ count, resetAt } = this.consumeMemory(key, durationMs));
+      }
+    } else {
+      ({ count, resetAt } = this.consumeMemory(key, durationMs));
+    }
+
+    return {
+      limit: points,
+      remaining: Math.max(0, points - count),
+      resetAt: new Date(resetAt),
+      allowed: count <= points,
+    };
+  }
+
+  async onModuleDestroy() {
+    if (this.client?.isOpen) {
+      this.client.destroy();
+    }
+  }
+
+  private async consumeRedis(
+    client: RedisClient,
+    key: string,
+    durationMs: number
+  ): Promise<MemoryWindow> {
+    const redisKey = this.keyPrefix + key;
+    // The expiry is only set by the request that opens the window
+    const [count, , ttl] = (await client
+      .multi()
+      .incr(redisKey)
+      .pExpire(redisKey, durationMs, 'NX')
+      .pTTL(redisKey)
+      .exec()) as unknown as [number, number, number];
+
+    return {
+      count,
+      resetAt: Date.now() + (ttl > 0 ? ttl : durationMs),
+    };
+  }
+
+  private consumeMemory(key: string, durationMs: number): MemoryWindow {
+    const now = Date.now();
+    this.sweep(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + durationMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+
+    return { ...window };
+  }
+
+  /** Drops expired windows at most once a minute. */
+  private sweep(now: number) {
+    if (now - this.lastSweep < 60000) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
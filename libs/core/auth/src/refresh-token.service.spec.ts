@@ -0,0 +1,146 @@
+import { Test } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { RefreshTokenService } from './refresh-token.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+
+/** Keeps refresh tokens in memory, understanding `IsNull()` criteria */
+class InMemoryRefreshTokenRepository {
+  readonly records = new Map<string, RefreshToken>();
+
+  async insert(record: RefreshToken) {
+    this.records.set(record.id, { ...record });
+  }
+
+  async findOne({ where }: { where: { id: string } }) {
+    return this.records.get(where.id) ?? null;
+  }
+
+  async update(
+    criteria: string | Record<string, unknown>,
+    patch: Partial<RefreshToken>
+  ) {
+    const matches = [...this.records.values()].filter((record) =>
+      typeof criteria === 'string'
+        ? record.id === criteria
+        : Object.entries(criteria).every(([key, value]) =>
+            value instanceof FindOperator && value.type === 'isNull'
+              ? record[key as keyof RefreshToken] == null
+              : record[key as keyof RefreshToken] === value
+          )
+    );
+    matches.forEach((record) => Object.assign(record, patch));
+    return { affected: matches.length };
+  }
+}
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let jwtService: JwtService;
+  let repository: InMemoryRefreshTokenRepository;
+
+  beforeEach(async () => {
+    repository = new InMemoryRefreshTokenRepository();
+
+    const app = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'access-secret' })],
+      providers: [
+        RefreshTokenService,
+        { provide: getRepositoryToken(RefreshToken), useValue: repository },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+        {
+          provide: 'AUTH_OPTIONS',
+          useValue: { refreshSecret: 'refresh-secret' },
+        },
+      ],
+    }).compile();
+
+    service = app.get<RefreshTokenService>(RefreshTokenService);
+    jwtService = app.get<JwtService>(JwtService);
+    jest.spyOn(service['logger'], 'warn').mockImplementation();
+  });
+
+  const familyRecords = (familyId: string) =>
+    [...repository.records.values()].filter(
+      (record) => record.familyId === familyId
+    );
+
+  it('should store only a hash of the issued token', async () => {
+    const token = await service.issue('user-1');
+
+    const [record] = repository.records.values();
+    expect(record).toMatchObject({ userId: 'user-1' });
+    expect(record.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.tokenHash).not.toBe(token);
+  });
+
+  it('should rotate a token within its family', async () => {
+    const token = await service.issue('user-1');
+
+    const rotated = await service.rotate(token);
+
+    expect(rotated.userId).toBe('user-1');
+    const [first, second] = repository.records.values();
+    expect(second.familyId).toBe(first.familyId);
+    expect(first).toMatchObject({ usedAt: expect.any(Date) });
+    expect(first.replacedById).toBe(second.id);
+  });
+
+  it('should revoke the whole family when a rotated token is reused', async () => {
+    const stolen = await service.issue('user-1');
+    const { refreshToken } = await service.rotate(stolen);
+    const { familyId } = [...repository.records.values()][0];
+
+    await expect(service.rotate(stolen)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+
+    expect(familyRecords(familyId)).toHaveLength(2);
+    familyRecords(familyId).forEach((record) =>
+      expect(record.revokedAt).toBeInstanceOf(Date)
+    );
+    // The legitimate client's current token is logged out as well
+    await expect(service.rotate(refreshToken)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+  });
+
+  it('should leave other families alone on reuse', async () => {
+    const stolen = await service.issue('user-1');
+    await service.rotate(stolen);
+    const otherDevice = await service.issue('user-1');
+
+    await expect(service.rotate(stolen)).rejects.toThrow(UnauthorizedException);
+
+    await expect(service.rotate(otherDevice)).resolves.toMatchObject({
+      userId: 'user-1',
+    });
+  });
+
+  it('should reject access tokens', async () => {
+    const accessToken = jwtService.sign(
+      { sub: 'user-1', email: 'dev@example.com', role: 'user' },
+      { secret: 'refresh-secret' }
+    );
+
+    await expect(service.rotate(accessToken)).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+  });
+
+  it('should not let another user revoke a token', async () => {
+    const token = await service.issue('user-1');
+
+    await expect(service.revoke(token, 'user-2')).rejects.toBeInstanceOf(
+      UnauthorizedException
+    );
+    const [record] = repository.records.values();
+    expect(record.revokedAt).toBeUndefined();
+  });
+});
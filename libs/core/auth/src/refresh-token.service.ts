@@ -0,0 +1,163 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { AuthModuleOptions } from './auth.module';
+
+export interface RefreshTokenPayload {
+  sub: string;
+  jti: string;
+  fam: string;
+  type: 'refresh';
+  iat?: number;
+  exp?: number;
+}
+
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    @Inject('AUTH_OPTIONS')
+    private options: AuthModuleOptions
+  ) {}
+
+  /**
+   * Issues a refresh token for the user, starting a new family unless one is
+   * given (rotation keeps the family of the token being replaced).
+   */
+  async issue(userId: string, familyId: string = randomUUID()): Promise<string> {
+    const id = randomUUID();
+    const payload: RefreshTokenPayload = {
+      sub: userId,
+      jti: id,
+      fam: familyId,
+      type: 'refresh',
+    };
+
+    const token = this.jwtService.sign(payload, this.signOptions());
+    const { exp } = this.jwtService.decode<RefreshTokenPayload>(token);
+
+    await this.refreshTokenRepository.insert({
+      id,
+      userId,
+      familyId,
+      tokenHash: this.hash(token),
+      expiresAt: new Date((exp as number) * 1000),
+    });
+
+    return token;
+  }
+
+  /**
+   * Consumes a refresh token and returns its replacement. Presenting a token
+   * that was already rotated or revoked is treated as theft: the whole family
+   * is revoked, logging out both the attacker and the legitimate client.
+   */
+  async rotate(token: string): Promise<{ userId: string; refreshToken: string }> {
+    const record = await this.findRecord(token);
+
+    if (record.usedAt || record.revokedAt) {
+      await this.revokeFamily(record.familyId);
+      this.logger.warn(
+        `Refresh token reuse detected for user ${record.userId}, family ${record.familyId} revoked`
+      );
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const result = await this.refreshTokenRepository.update(
+      { id: record.id, usedAt: IsNull(), revokedAt: IsNull() },
+      { usedAt: new Date() }
+    );
+    if (!result.affected) {
+      await this.revokeFamily(record.familyId);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const refreshToken = await this.issue(record.userId, record.familyId);
+    const { jti } = this.jwtService.decode<RefreshTokenPayload>(refreshToken);
+    await this.refreshTokenRepository.update(record.id, { replacedById: jti });
+
+    return { userId: record.userId, refreshToken };
+  }
+
+  /** Revokes the family of the given token, e.g. on logout. */
+  async revoke(token: string, userId?: string): Promise<void> {
+    const record = await this.findRecord(token);
+
+    if (userId && record.userId !== userId) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    await this.revokeFamily(record.familyId);
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.refreshTokenRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+  }
+
+  private async findRecord(token: string): Promise<RefreshToken> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = this.jwtService.verify<RefreshTokenPayload>(token, {
+        secret: this.signOptions().secret,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Access tokens carry no refresh claims and are rejected here
+    if (payload.type !== 'refresh' || !payload.jti) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const record = await this.refreshTokenRepository.findOne({
+      where: { id: payload.jti },
+    });
+
+    if (!record || record.tokenHash !== this.hash(token)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return record;
+  }
+
+  private signOptions(): { secret?: string; expiresIn: string } {
+    return {
+      // Falls back to the access token secret configured on JwtModule
+      secret:
+        this.options.refreshSecret ||
+        this.configService.get<string>('JWT_REFRESH_SECRET'),
+      expiresIn:
+        this.options.refreshExpiresIn ||
+        this.configService.get<string>('JWT_REFRESH_EXPIRES_IN', '7d'),
+    };
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
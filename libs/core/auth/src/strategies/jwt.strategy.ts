@@ -8,6 +8,7 @@ export interface JwtPayload {
   sub: string;
   email: string;
   role: string;
+  type?: 'refresh';
   iat?: number;
   exp?: number;
 }
@@ -26,6 +27,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: JwtPayload) {
+    // Refresh tokens may share the signing secret but never authorize requests
+    if (payload.type === 'refresh') {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
     const user = await this.authService.findUserById(payload.sub);
     
     if (!user || !user.isActive) {
@@ -0,0 +1,43 @@
+import { LLMCacheStore } from '../interfaces/cache-store.interface';
+
+/**
+ * Process-local store, used on its own when no Redis is configured and as a
+ * fallback while Redis is down. The oldest entry is evicted once
+ * `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements LLMCacheStore {
+  public readonly name = 'memory';
+  private readonly entries = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+}
@@ -0,0 +1,61 @@
+import { Logger } from '@nestjs/common';
+import { createClient } from 'redis';
+import { LLMCacheStore } from '../interfaces/cache-store.interface';
+
+/**
+ * Redis-backed store. Connects in the background and keeps reconnecting, so
+ * a missing Redis never blocks startup; commands fail fast instead of being
+ * queued while it is unreachable.
+ */
+export class RedisCacheStore implements LLMCacheStore {
+  private readonly logger = new Logger(RedisCacheStore.name);
+  public readonly name = 'redis';
+  private readonly client: ReturnType<typeof createClient>;
+  private unavailableLogged = false;
+
+  constructor(url: string) {
+    this.client = createClient({
+      url,
+      disableOfflineQueue: true,
+      socket: {
+        reconnectStrategy: (retries) => Math.min(retries * 1000, 30000),
+      },
+    });
+
+    // Errors repeat on every reconnect attempt; log once per outage
+    this.client.on('error', (error) => {
+      if (!this.unavailableLogged) {
+        this.unavailableLogged = true;
+        this.logger.warn(
+          `Redis cache unavailable, using in-memory cache: ${error.message}`
+        );
+      }
+    });
+    this.client.on('ready', () => {
+      this.unavailableLogged = false;
+      this.logger.log('Redis cache connected');
+    });
+
+    this.client.connect().catch(() => undefined);
+  }
+
+  isReady(): boolean {
+    return this.client.isReady;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(key)) ?? undefined;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(key, value, {
+      expiration: { type: 'EX', value: ttlSeconds },
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.client.isOpen) {
+      this.client.destroy();
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import {
+  LLMMessage,
+  LLMProviderOptions,
+  LLMResponse,
+} from '../interfaces/llm-provider.interface';
+import { LLMCacheStore } from '../interfaces/cache-store.interface';
+import { MemoryCacheStore } from './memory-cache.store';
+
+export interface LLMCacheOptions {
+  /** Seconds a response stays cached (default 3600) */
+  ttl?: number;
+  /**
+   * Cache only requests with `temperature: 0` unless a request passes
+   * `cache: true` (default true). Sampled answers are meant to vary.
+   */
+  deterministicOnly?: boolean;
+  keyPrefix?: string;
+  /** Size of the in-memory store (default 1000 entries) */
+  maxMemoryEntries?: number;
+}
+
+export interface LLMCacheStats {
+  /** Backend currently serving requests */
+  store: string;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  errors: number;
+}
+
+/**
+ * Completion cache keyed on a hash of everything that shapes the answer:
+ * messages, provider, model and sampling options. Reads and writes go to the
+ * configured store while it is reachable and to an in-memory store otherwise;
+ * cache failures never fail the request.
+ */
+export class ResponseCache {
+  private readonly logger = new Logger(ResponseCache.name);
+  private readonly memory: MemoryCacheStore;
+  private readonly ttl: number;
+  private readonly deterministicOnly: boolean;
+  private readonly keyPrefix: string;
+  private hits = 0;
+  private misses = 0;
+  private errors = 0;
+
+  constructor(
+    options: LLMCacheOptions = {},
+    private readonly store?: LLMCacheStore
+  ) {
+    this.ttl = options.ttl ?? 3600;
+    this.deterministicOnly = options.deterministicOnly ?? true;
+    this.keyPrefix = options.keyPrefix ?? 'llm:cache:';
+    this.memory = new MemoryCacheStore(options.maxMemoryEntries);
+  }
+
+  shouldCache(options: { cache?: boolean; temperature?: number }): boolean {
+    if (options.cache !== undefined) {
+      return options.cache;
+    }
+    return !this.deterministicOnly || options.temperature === 0;
+  }
+
+  buildKey(
+    messages: LLMMessage[],
+    provider: string | undefined,
+    options: LLMProviderOptions
+  ): string {
+    const payload = {
+      provider,
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      topP: options.topP,
+      tools: options.tools,
+      toolChoice: options.toolChoice,
+      responseFormat: options.responseFormat,
+      messages: messages.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+        name: msg.name,
+        toolCallId: msg.toolCallId,
+        toolCalls: msg.toolCalls,
+      })),
+    };
+
+    return (
+      this.keyPrefix +
+      createHash('sha256').update(stableStringify(payload)).digest('hex')
+    );
+  }
+
+  async get(key: string): Promise<LLMResponse | undefined> {
+    const value = await this.run((store) => store.get(key));
+    if (value) {
+      this.hits++;
+      return JSON.parse(value) as LLMResponse;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  async set(key: string, response: LLMResponse): Promise<void> {
+    await this.run((store) =>
+      store.set(key, JSON.stringify(response), this.ttl)
+    );
+  }
+
+  getStats(): LLMCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.activeStore().name,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups ? this.hits / lookups : 0,
+      errors: this.errors,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.store?.close?.();
+  }
+
+  private activeStore(): LLMCacheStore {
+    return this.store?.isReady() ? this.store : this.memory;
+  }
+
+  private async run<T>(
+    operation: (store: LLMCacheStore) => Promise<T>
+  ): Promise<T | undefined> {
+    const store = this.activeStore();
+    try {
+      return await operation(store);
+    } catch (error) {
+      this.errors++;
+      this.logger.warn(
+        `Response cache ${store.name} error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return store === this.memory ? undefined : operation(this.memory);
+    }
+  }
+}
+
+/** JSON with object keys sorted, so equal payloads hash equally. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.keys(val)
+            .sort()
+            .map((key) => [key, val[key]])
+        )
+      : val
+  );
+}
@@ -0,0 +1,267 @@
+import { Logger } from '@nestjs/common';
+import { LLMProvider } from '../interfaces/llm-provider.interface';
+import {
+  LLMDiscoveredModel,
+  LLMModelCapabilities,
+  LLMModelInfo,
+} from '../interfaces/model-catalog.interface';
+import { ContextWindowRegistry } from '../context/context-window.registry';
+import { matchModel } from '../utils/model-match';
+
+/**
+ * Capabilities keyed by provider, then model prefix. The '*' entry holds the
+ * provider-wide defaults and the longest matching prefix is applied over it.
+ */
+export type ModelCapabilityTable = Record<
+  string,
+  Record<string, LLMModelCapabilities>
+>;
+
+const EMBEDDING_ONLY: LLMModelCapabilities = {
+  chat: false,
+  vision: false,
+  tools: false,
+  jsonMode: false,
+  streaming: false,
+  embeddings: true,
+};
+
+// Image, audio and moderation models, hidden from the catalog
+const NOT_A_LANGUAGE_MODEL: LLMModelCapabilities = {
+  ...EMBEDDING_ONLY,
+  embeddings: false,
+};
+
+const OPENAI_REASONING_PREVIEW: LLMModelCapabilities = {
+  vision: false,
+  tools: false,
+  jsonMode: false,
+};
+
+// Published capabilities at the time of writing; extend through the
+// `modelCapabilities` option. Flags left out stay unknown, e.g. tool support
+// of Ollama models depends on the model's template.
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilityTable = {
+  openai: {
+    '*': {
+      chat: true,
+      vision: false,
+      tools: true,
+      jsonMode: true,
+      streaming: true,
+      embeddings: false,
+    },
+    'gpt-5': { vision: true },
+    'gpt-4.5': { vision: true },
+    'gpt-4.1': { vision: true },
+    'gpt-4o': { vision: true },
+    'chatgpt-4o': { vision: true, tools: false },
+    'gpt-4-turbo': { vision: true },
+    o1: { vision: true },
+    'o1-mini': OPENAI_REASONING_PREVIEW,
+    'o1-preview': OPENAI_REASONING_PREVIEW,
+    o3: { vision: true },
+    'o3-mini': { vision: false },
+    o4: { vision: true },
+    'text-embedding': EMBEDDING_ONLY,
+    'dall-e': NOT_A_LANGUAGE_MODEL,
+    'gpt-image': NOT_A_LANGUAGE_MODEL,
+    whisper: NOT_A_LANGUAGE_MODEL,
+    tts: NOT_A_LANGUAGE_MODEL,
+    'gpt-4o-mini-tts': NOT_A_LANGUAGE_MODEL,
+    'gpt-4o-transcribe': NOT_A_LANGUAGE_MODEL,
+    'gpt-4o-mini-transcribe': NOT_A_LANGUAGE_MODEL,
+    'omni-moderation': NOT_A_LANGUAGE_MODEL,
+    'text-moderation': NOT_A_LANGUAGE_MODEL,
+    davinci: NOT_A_LANGUAGE_MODEL,
+    babbage: NOT_A_LANGUAGE_MODEL,
+  },
+  claude: {
+    // JSON output is emulated with a forced tool call
+    '*': {
+      chat: true,
+      vision: true,
+      tools: true,
+      jsonMode: true,
+      streaming: true,
+      embeddings: false,
+    },
+    'claude-3-5-haiku': { vision: false },
+    'claude-2': { vision: false, tools: false, jsonMode: false },
+    'claude-instant': { vision: false, tools: false, jsonMode: false },
+  },
+  ollama: {
+    '*': { chat: true, jsonMode: true, streaming: true, embeddings: false },
+    'nomic-embed-text': EMBEDDING_ONLY,
+    'mxbai-embed': EMBEDDING_ONLY,
+    'snowflake-arctic-embed': EMBEDDING_ONLY,
+    'bge-': EMBEDDING_ONLY,
+    'all-minilm': EMBEDDING_ONLY,
+  },
+  mock: {
+    '*': {
+      chat: true,
+      vision: true,
+      tools: true,
+      jsonMode: true,
+      streaming: true,
+      embeddings: false,
+    },
+  },
+};
+
+// Failed discoveries are retried sooner than the regular TTL
+const FAILED_DISCOVERY_TTL = 60000;
+
+type CatalogProvider = Pick<LLMProvider, 'name' | 'type' | 'defaultModel'>;
+
+/**
+ * Models per provider with their capabilities: static metadata, overlaid
+ * with what `listModels` reports. Discovery results are cached per provider
+ * for `ttlMs`, and concurrent lookups share one request.
+ */
+export class ModelCatalog {
+  private readonly logger = new Logger(ModelCatalog.name);
+  private readonly table: ModelCapabilityTable = {};
+  private readonly discovered = new Map<
+    string,
+    { models?: LLMDiscoveredModel[]; expiresAt: number }
+  >();
+  private readonly pending = new Map<
+    string,
+    Promise<LLMDiscoveredModel[] | undefined>
+  >();
+  private ttlMs = 10 * 60 * 1000;
+
+  constructor(
+    private readonly contextWindows: ContextWindowRegistry,
+    capabilities: ModelCapabilityTable = DEFAULT_MODEL_CAPABILITIES
+  ) {
+    this.merge(capabilities);
+  }
+
+  merge(capabilities: ModelCapabilityTable) {
+    for (const [provider, models] of Object.entries(capabilities)) {
+      this.table[provider] = { ...this.table[provider], ...models };
+    }
+  }
+
+  setTtl(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  /** Drops cached discovery results, of one provider or all of them */
+  invalidate(provider?: string) {
+    if (provider) {
+      this.discovered.delete(provider);
+    } else {
+      this.discovered.clear();
+    }
+  }
+
+  /**
+   * What is known about one model without contacting the provider: the
+   * static metadata and the last discovery result, if any.
+   */
+  describe(provider: CatalogProvider, model: string): LLMModelInfo {
+    const discovered = this.discovered
+      .get(provider.name)
+      ?.models?.find((entry) => entry.id === model);
+    const entries =
+      this.table[provider.name] ?? this.table[provider.type ?? ''];
+    // Fine-tuned OpenAI models keep the capabilities of their base model
+    const base = model.replace(/^ft:/, '');
+
+    const capabilities: LLMModelCapabilities = {
+      contextWindow: this.contextWindows.getContextWindow(
+        provider.name,
+        model,
+        provider.type
+      ),
+      ...entries?.['*'],
+      ...matchModel(entries, base),
+      // Reported flags win; ones the provider leaves out keep the static value
+      ...Object.fromEntries(
+        Object.entries(discovered?.capabilities ?? {}).filter(
+          ([, value]) => value !== undefined
+        )
+      ),
+    };
+
+    return {
+      id: model,
+      provider: provider.name,
+      type: provider.type,
+      default: model === provider.defaultModel,
+      source: discovered ? 'discovered' : 'configured',
+      capabilities,
+    };
+  }
+
+  /**
+   * Models of a provider, default model first. Providers without
+   * `listModels`, or whose listing fails, are represented by their default
+   * model alone. Models that can neither chat nor embed are left out.
+   */
+  async list(provider: LLMProvider, refresh = false): Promise<LLMModelInfo[]> {
+    const discovered = await this.discover(provider, refresh);
+    const ids = new Set<string>();
+    if (provider.defaultModel) {
+      ids.add(provider.defaultModel);
+    }
+    discovered?.forEach((model) => ids.add(model.id));
+
+    return Array.from(ids)
+      .map((id) => this.describe(provider, id))
+      .filter(
+        ({ capabilities }) =>
+          capabilities.chat !== false || capabilities.embeddings === true
+      );
+  }
+
+  private discover(
+    provider: LLMProvider,
+    refresh: boolean
+  ): Promise<LLMDiscoveredModel[] | undefined> {
+    if (!provider.listModels) {
+      return Promise.resolve(undefined);
+    }
+
+    const cached = this.discovered.get(provider.name);
+    if (!refresh && cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve(cached.models);
+    }
+
+    let pending = this.pending.get(provider.name);
+    if (!pending) {
+      pending = provider
+        .listModels()
+        .then(
+          (models) => {
+            this.discovered.set(provider.name, {
+              models,
+              expiresAt: Date.now() + this.ttlMs,
+            });
+            return models;
+          },
+          (error) => {
+            this.logger.warn(
+              `Could not list models of provider ${provider.name}: ${
+                error instanceof Error ? error.message : error
+              }`
+            );
+            // Keep serving the previous listing until the next attempt
+            this.discovered.set(provider.name, {
+              models: cached?.models,
+              expiresAt:
+                Date.now() + Math.min(this.ttlMs, FAILED_DISCOVERY_TTL),
+            });
+            return cached?.models;
+          }
+        )
+        .finally(() => this.pending.delete(provider.name));
+      this.pending.set(provider.name, pending);
+    }
+    return pending;
+  }
+}
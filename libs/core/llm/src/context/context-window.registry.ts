@@ -0,0 +1,57 @@
+import { matchModel } from '../utils/model-match';
+
+/** Context window sizes in tokens, keyed by provider, then model prefix */
+export type ContextWindowTable = Record<string, Record<string, number>>;
+
+// Published limits at the time of writing; override through the
+// `modelContextWindows` option. '*' covers models not listed, including the
+// provider's default model.
+export const DEFAULT_CONTEXT_WINDOWS: ContextWindowTable = {
+  openai: {
+    '*': 128000,
+    'gpt-5': 400000,
+    'gpt-4.1': 1047576,
+    'gpt-4o': 128000,
+    'gpt-4-turbo': 128000,
+    'gpt-4': 8192,
+    'gpt-3.5-turbo': 16385,
+    o1: 200000,
+    'o1-mini': 128000,
+    o3: 200000,
+    'o4-mini': 200000,
+  },
+  claude: {
+    '*': 200000,
+  },
+  // Ollama cuts prompts to its num_ctx setting whatever the model supports
+  ollama: {
+    '*': 4096,
+  },
+};
+
+/** Looks up how many tokens a model accepts; the longest model prefix wins. */
+export class ContextWindowRegistry {
+  private readonly table: ContextWindowTable = {};
+
+  constructor(windows: ContextWindowTable = DEFAULT_CONTEXT_WINDOWS) {
+    this.merge(windows);
+  }
+
+  merge(windows: ContextWindowTable) {
+    for (const [provider, models] of Object.entries(windows)) {
+      this.table[provider] = { ...this.table[provider], ...models };
+    }
+  }
+
+  /** `type` is consulted when the provider instance has no entry of its own */
+  getContextWindow(
+    provider: string,
+    model?: string,
+    type?: string
+  ): number | undefined {
+    return matchModel(
+      this.table[provider] ?? (type ? this.table[type] : undefined),
+      model
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { LLMMessage } from '../interfaces/llm-provider.interface';
+import {
+  estimateMessageTokens,
+  estimatePromptTokens,
+} from '../utils/token-estimator';
+
+/**
+ * How to fit a prompt that exceeds the budget:
+ * - 'none': send it as is and let the provider reject it
+ * - 'truncate': drop the oldest turns
+ * - 'summarize': replace the oldest turns with a summary written by a
+ *   cheaper model
+ */
+export type ContextStrategy = 'none' | 'truncate' | 'summarize';
+
+export interface ContextWindowOptions {
+  strategy?: ContextStrategy;
+  /**
+   * Prompt token budget; defaults to the model's context window minus the
+   * requested `maxTokens`
+   */
+  maxPromptTokens?: number;
+  /** Latest messages that are always sent verbatim (default 4, minimum 1) */
+  keepRecent?: number;
+  /** Model that writes summaries; defaults to a small model of the provider */
+  summaryModel?: { provider?: string; model?: string };
+}
+
+export interface ContextFitResult {
+  messages: LLMMessage[];
+  estimatedTokens: number;
+  /** Older messages that were dropped or folded into the summary */
+  droppedMessages: number;
+  summarized: boolean;
+}
+
+/**
+ * Fits `messages` into `budget` tokens. Leading system messages and the
+ * latest `keepRecent` messages are always kept, so the result can still be
+ * over budget when they alone do not fit.
+ */
+export async function fitContextWindow(
+  messages: LLMMessage[],
+  options: {
+    budget: number;
+    strategy: ContextStrategy;
+    keepRecent?: number;
+    /** Writes the summary of the given turns for 'summarize' */
+    summarize?: (messages: LLMMessage[]) => Promise<string>;
+  }
+): Promise<ContextFitResult> {
+  const estimatedTokens = estimatePromptTokens(messages);
+  const { system, older, recent } = splitConversation(
+    messages,
+    Math.max(1, options.keepRecent ?? 4)
+  );
+
+  if (
+    options.strategy === 'none' ||
+    estimatedTokens <= options.budget ||
+    !older.length
+  ) {
+    return { messages, estimatedTokens, droppedMessages: 0, summarized: false };
+  }
+
+  if (options.strategy === 'summarize' && options.summarize) {
+    const summary = await options.summarize(older);
+    const fitted: LLMMessage[] = [
+      ...system,
+      {
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${summary}`,
+      },
+      ...recent,
+    ];
+    return {
+      messages: fitted,
+      estimatedTokens: estimatePromptTokens(fitted),
+      droppedMessages: older.length,
+      summarized: true,
+    };
+  }
+
+  let tokens = estimatedTokens;
+  let start = 0;
+  while (
+    start < older.length &&
+    // Tool results are dropped with the call that requested them
+    (tokens > options.budget || older[start].role === 'tool')
+  ) {
+    tokens -= estimateMessageTokens(older[start]);
+    start++;
+  }
+
+  return {
+    messages: [...system, ...older.slice(start), ...recent],
+    estimatedTokens: tokens,
+    droppedMessages: start,
+    summarized: false,
+  };
+}
+
+function splitConversation(messages: LLMMessage[], keepRecent: number) {
+  let systemEnd = 0;
+  while (systemEnd < messages.length && messages[systemEnd].role === 'system') {
+    systemEnd++;
+  }
+
+  // Keep tool results together with the assistant message that called them
+  let recentStart = Math.max(systemEnd, messages.length - keepRecent);
+  while (recentStart > systemEnd && messages[recentStart]?.role === 'tool') {
+    recentStart--;
+  }
+
+  return {
+    system: messages.slice(0, systemEnd),
+    older: messages.slice(systemEnd, recentStart),
+    recent: messages.slice(recentStart),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Provider failure normalized from the OpenAI, Anthropic and Ollama error
+ * responses. `retryable` tells LLMService whether the same request may
+ * succeed on another attempt against the same provider.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly retryable: boolean,
+    /** HTTP status of the upstream response, when there was one */
+    public readonly status?: number,
+    /** Original SDK or HTTP error */
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'LLMProviderError';
+  }
+}
+
+/** 429: too many requests or tokens; retried after `retryAfterMs` when known. */
+export class RateLimitError extends LLMProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    public readonly retryAfterMs?: number,
+    cause?: unknown
+  ) {
+    super(message, provider, true, 429, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** 401/403: missing, invalid or unauthorized API key. Never retried. */
+export class AuthenticationError extends LLMProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    cause?: unknown
+  ) {
+    super(message, provider, false, status, cause);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The request itself was rejected (400, 404, 422). Retrying or sending it to
+ * another provider would fail the same way.
+ */
+export class InvalidRequestError extends LLMProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    cause?: unknown
+  ) {
+    super(message, provider, false, status, cause);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * The prompt plus `maxTokens` does not fit the model's context window.
+ * LLMService retries once on a model with a larger context, if configured.
+ */
+export class ContextLengthError extends InvalidRequestError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    cause?: unknown
+  ) {
+    super(message, provider, status, cause);
+    this.name = 'ContextLengthError';
+  }
+}
+
+/** The provider's safety system refused the prompt or the answer. */
+export class ContentFilterError extends InvalidRequestError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    cause?: unknown
+  ) {
+    super(message, provider, status, cause);
+    this.name = 'ContentFilterError';
+  }
+}
+
+/** No response within the deadline. */
+export class TimeoutError extends LLMProviderError {
+  constructor(message: string, provider: string, cause?: unknown) {
+    super(message, provider, true, undefined, cause);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** Connection failures, 5xx and overload responses. */
+export class ProviderUnavailableError extends LLMProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    cause?: unknown
+  ) {
+    super(message, provider, true, status, cause);
+    this.name = 'ProviderUnavailableError';
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Raised before any request is sent when the selected provider or model
+ * cannot handle the input, e.g. image parts sent to a text-only model.
+ * LLMService does not retry or fall back on this error.
+ */
+export class ModelCapabilityError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly model: string,
+    public readonly capability: string,
+    detail?: string
+  ) {
+    super(
+      detail ||
+        `Model ${model} of provider ${provider} does not support ${capability}`
+    );
+    this.name = 'ModelCapabilityError';
+  }
+}
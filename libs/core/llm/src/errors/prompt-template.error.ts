@@ -0,0 +1,15 @@
+/**
+ * Raised before any request is sent when a prompt template does not exist,
+ * has no published version, or is rendered without a required variable.
+ */
+export class PromptTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly template: string,
+    /** Required variables the caller did not pass */
+    public readonly missingVariables: string[] = []
+  ) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
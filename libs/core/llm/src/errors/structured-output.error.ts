@@ -0,0 +1,17 @@
+/**
+ * Raised by `LLMService.generateObject` when the model still produces output
+ * that does not parse or validate after every re-prompt.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    /** Validation errors of the last attempt */
+    public readonly errors: string[],
+    /** Raw content of the last attempt */
+    public readonly content: string,
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
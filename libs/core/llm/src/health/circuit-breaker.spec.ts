@@ -0,0 +1,124 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let circuit: CircuitBreaker;
+
+  const fail = (count: number, latencyMs = 10) => {
+    for (let i = 0; i < count; i++) {
+      expect(circuit.tryAcquire()).toBe(true);
+      circuit.recordFailure(latencyMs);
+    }
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    circuit = new CircuitBreaker({
+      failureThreshold: 0.5,
+      minimumRequests: 4,
+      windowSize: 10,
+      openDuration: 30000,
+      slowCallThreshold: 1000,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stay closed until the window has enough calls', () => {
+    fail(3);
+
+    expect(circuit.getStatus()).toMatchObject({
+      state: 'closed',
+      requests: 3,
+      failures: 3,
+    });
+    expect(circuit.canRequest()).toBe(true);
+  });
+
+  it('should open once the error rate reaches the threshold', () => {
+    circuit.recordSuccess(10);
+    circuit.recordSuccess(10);
+    fail(2);
+
+    expect(circuit.getStatus()).toMatchObject({
+      state: 'open',
+      errorRate: 0.5,
+      retryAt: new Date(now + 30000),
+    });
+    expect(circuit.canRequest()).toBe(false);
+    expect(circuit.tryAcquire()).toBe(false);
+  });
+
+  it('should count slow successes as failures', () => {
+    for (let i = 0; i < 4; i++) {
+      circuit.recordSuccess(1500);
+    }
+
+    expect(circuit.getStatus()).toMatchObject({
+      state: 'open',
+      failures: 4,
+      averageLatencyMs: 1500,
+    });
+  });
+
+  describe('half-open', () => {
+    beforeEach(() => {
+      fail(4);
+      now += 30000;
+    });
+
+    it('should admit exactly one trial call', () => {
+      expect(circuit.canRequest()).toBe(true);
+      expect(circuit.getStatus().state).toBe('half-open');
+
+      expect(circuit.tryAcquire()).toBe(true);
+      expect(circuit.tryAcquire()).toBe(false);
+      expect(circuit.canRequest()).toBe(false);
+    });
+
+    it('should close and reset the window when the trial succeeds', () => {
+      circuit.tryAcquire();
+      circuit.recordSuccess(10);
+
+      expect(circuit.getStatus()).toMatchObject({
+        state: 'closed',
+        requests: 1,
+        failures: 0,
+      });
+      expect(circuit.tryAcquire()).toBe(true);
+      expect(circuit.tryAcquire()).toBe(true);
+    });
+
+    it('should re-open when the trial fails', () => {
+      circuit.tryAcquire();
+      circuit.recordFailure(10);
+
+      expect(circuit.getStatus()).toMatchObject({
+        state: 'open',
+        retryAt: new Date(now + 30000),
+      });
+      expect(circuit.tryAcquire()).toBe(false);
+
+      now += 30000;
+      expect(circuit.tryAcquire()).toBe(true);
+    });
+
+    it('should re-open when the trial is slow', () => {
+      circuit.tryAcquire();
+      circuit.recordSuccess(1500);
+
+      expect(circuit.getStatus().state).toBe('open');
+    });
+
+    it('should admit another trial once one is released', () => {
+      circuit.tryAcquire();
+      circuit.release();
+
+      expect(circuit.getStatus().state).toBe('half-open');
+      expect(circuit.tryAcquire()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Error rate (0-1) over the window that opens the circuit (default 0.5) */
+  failureThreshold?: number;
+  /** Calls needed in the window before the error rate is judged (default 5) */
+  minimumRequests?: number;
+  /** Number of most recent calls the error rate is computed over (default 20) */
+  windowSize?: number;
+  /** Milliseconds an open circuit waits before a trial call (default 30000) */
+  openDuration?: number;
+  /** Calls slower than this many milliseconds count as failures (default: off) */
+  slowCallThreshold?: number;
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  /** Mean latency of the calls in the window */
+  averageLatencyMs?: number;
+  /** When an open circuit will admit a trial call */
+  retryAt?: Date;
+}
+
+/**
+ * Per-provider circuit breaker. Closed circuits pass every call; once the
+ * error rate over the recent window reaches the threshold the circuit opens
+ * and calls are rejected without reaching the provider. After `openDuration`
+ * it turns half-open and admits a single trial call, which decides whether
+ * it closes again or re-opens; other calls are rejected until it finishes.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: { failed: boolean; latencyMs: number }[] = [];
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowSize: number;
+  private readonly openDuration: number;
+  private readonly slowCallThreshold?: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 5;
+    this.windowSize = options.windowSize ?? 20;
+    this.openDuration = options.openDuration ?? 30000;
+    this.slowCallThreshold = options.slowCallThreshold;
+  }
+
+  /**
+   * Whether a call would be admitted now, without claiming the half-open
+   * trial. Expired open circuits turn half-open.
+   */
+  canRequest(): boolean {
+    if (
+      this.state === 'open' &&
+      Date.now() - this.openedAt >= this.openDuration
+    ) {
+      this.state = 'half-open';
+    }
+    return (
+      this.state === 'closed' ||
+      (this.state === 'half-open' && !this.trialInFlight)
+    );
+  }
+
+  /**
+   * Admits a call, claiming the trial when half-open. Every admitted call
+   * must end in `recordSuccess`, `recordFailure` or `release`.
+   */
+  tryAcquire(): boolean {
+    if (!this.canRequest()) {
+      return false;
+    }
+    if (this.state === 'half-open') {
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /** Ends a call whose outcome says nothing about the provider's health */
+  release() {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess(latencyMs: number) {
+    if (
+      this.slowCallThreshold !== undefined &&
+      latencyMs > this.slowCallThreshold
+    ) {
+      this.recordFailure(latencyMs);
+      return;
+    }
+
+    if (this.state === 'half-open') {
+      this.close();
+    }
+    this.push(false, latencyMs);
+  }
+
+  recordFailure(latencyMs: number) {
+    this.trialInFlight = false;
+    this.push(true, latencyMs);
+
+    const { requests, errorRate } = this.getStatus();
+    if (
+      this.state === 'half-open' ||
+      (requests >= this.minimumRequests && errorRate >= this.failureThreshold)
+    ) {
+      this.open();
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    const requests = this.outcomes.length;
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+
+    return {
+      state: this.state,
+      requests,
+      failures,
+      errorRate: requests ? failures / requests : 0,
+      averageLatencyMs: requests
+        ? Math.round(
+            this.outcomes.reduce((sum, outcome) => sum + outcome.latencyMs, 0) /
+              requests
+          )
+        : undefined,
+      retryAt:
+        this.state === 'open'
+          ? new Date(this.openedAt + this.openDuration)
+          : undefined,
+    };
+  }
+
+  private push(failed: boolean, latencyMs: number) {
+    this.outcomes.push({ failed, latencyMs });
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open() {
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  private close() {
+    this.state = 'closed';
+    this.trialInFlight = false;
+    this.outcomes = [];
+  }
+}
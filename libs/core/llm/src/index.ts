@@ -1,6 +1,44 @@
 export * from './llm.module';
 export * from './llm.service';
 export * from './interfaces/llm-provider.interface';
+export * from './interfaces/embedding-provider.interface';
+export * from './interfaces/usage-tracker.interface';
 export * from './providers/openai.provider';
 export * from './providers/claude.provider';
-export * from './providers/ollama.provider';
\ No newline at end of file
+export * from './providers/ollama.provider';
+export * from './errors/structured-output.error';
+export * from './errors/model-capability.error';
+export * from './errors/llm-provider.error';
+export * from './utils/message-content';
+export * from './utils/provider-errors';
+export * from './usage/usage.module';
+export * from './usage/usage.service';
+export * from './usage/quota-exceeded.exception';
+export * from './usage/entities/usage-record.entity';
+export * from './usage/usage-report.controller';
+export * from './usage/dto/usage-report.dto';
+export * from './pricing/pricing.registry';
+export * from './interfaces/cache-store.interface';
+export * from './cache/response-cache';
+export * from './cache/memory-cache.store';
+export * from './cache/redis-cache.store';
+export * from './health/circuit-breaker';
+export * from './interfaces/prompt-source.interface';
+export * from './errors/prompt-template.error';
+export * from './utils/prompt-template';
+export * from './prompts/prompt.module';
+export * from './prompts/prompt.service';
+export * from './prompts/prompt.controller';
+export * from './prompts/entities/prompt-template.entity';
+export * from './prompts/dto/prompt-template.dto';
+export * from './utils/model-match';
+export * from './utils/token-estimator';
+export * from './context/context-window';
+export * from './context/context-window.registry';
+export * from './providers/mock.provider';
+export * from './interfaces/provider-config.interface';
+export * from './providers/provider-registry';
+export * from './providers/openai-compatible.provider';
+export * from './interfaces/model-catalog.interface';
+export * from './catalog/model-catalog';
+export * from './routing/model-router';
\ No newline at end of file
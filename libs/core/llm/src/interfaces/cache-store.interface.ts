@@ -0,0 +1,9 @@
+/** Key-value backend for the response cache. Values are serialized JSON. */
+export interface LLMCacheStore {
+  readonly name: string;
+  /** False while the backend is unreachable; the in-memory store is used instead */
+  isReady(): boolean;
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  close?(): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { LLMUsage } from './llm-provider.interface';
+
+export interface EmbeddingOptions {
+  model?: string;
+  /** Output size for models that support shortened embeddings */
+  dimensions?: number;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface EmbeddingResponse {
+  /** One vector per input text, in input order */
+  embeddings: number[][];
+  model: string;
+  dimensions: number;
+  /** Embeddings only consume input tokens, so completionTokens is always 0 */
+  usage?: LLMUsage;
+  provider: string;
+  /** Cost in USD, set by LLMService from the pricing registry */
+  estimatedCost?: number;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  isAvailable(): Promise<boolean>;
+  embed(
+    texts: string[],
+    options?: EmbeddingOptions
+  ): Promise<EmbeddingResponse>;
+}
@@ -1,16 +1,106 @@
+import { LLMDiscoveredModel } from './model-catalog.interface';
+
+export interface LLMTextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface LLMImagePart {
+  type: 'image';
+  source:
+    | { type: 'url'; url: string }
+    | {
+        type: 'base64';
+        mediaType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+        data: string;
+      };
+}
+
+export type LLMContentPart = LLMTextPart | LLMImagePart;
+
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  /** Plain text, or text and image parts for vision models (user messages only) */
+  content: string | LLMContentPart[];
+  /** Tool invocations requested by the model (assistant messages only) */
+  toolCalls?: LLMToolCall[];
+  /** Id of the tool call this message answers (tool messages only) */
+  toolCallId?: string;
+  /** Name of the tool that produced this result (tool messages only) */
+  name?: string;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description?: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * Requests JSON output. With a schema, providers that support it constrain
+ * generation to that schema; without one they only guarantee valid JSON.
+ */
+export interface LLMResponseFormat {
+  type: 'json';
+  /** JSON Schema the output object must satisfy */
+  schema?: Record<string, unknown>;
+  /** Schema name reported to the provider (OpenAI, Claude) */
+  name?: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** Identifies the prompt template version a request was rendered from */
+export interface LLMPromptRef {
+  name: string;
+  version: number;
 }
 
 export interface LLMResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LLMUsage;
+  provider: string;
+  /** Model that served the request, as reported by the provider */
+  model?: string;
+  /** Cost in USD from the pricing registry; unset when the model is unpriced */
+  estimatedCost?: number;
+  /** Present when the model asks the caller to run one or more tools */
+  toolCalls?: LLMToolCall[];
+  /** True when served from the response cache without calling the provider */
+  cached?: boolean;
+  /** Set when the messages were rendered from a prompt template */
+  prompt?: LLMPromptRef;
+}
+
+/**
+ * A single increment of a streamed completion. Providers yield one chunk per
+ * text delta and finish with a chunk where `done` is true, an empty `delta`
+ * and the usage summary (when the upstream API reports one).
+ */
+export interface LLMStreamChunk {
+  delta: string;
+  done: boolean;
+  usage?: LLMUsage;
   provider: string;
+  /** Set on the final chunk */
+  model?: string;
+  /** Set on the final chunk when usage and model pricing are known */
+  estimatedCost?: number;
+  /** Set on the final chunk when the messages came from a prompt template */
+  prompt?: LLMPromptRef;
 }
 
 export interface LLMProviderOptions {
@@ -19,13 +109,39 @@ export interface LLMProviderOptions {
   maxTokens?: number;
   topP?: number;
   stream?: boolean;
+  tools?: LLMToolDefinition[];
+  toolChoice?: LLMToolChoice;
+  responseFormat?: LLMResponseFormat;
+  /** Aborts the in-flight provider request, e.g. when the HTTP client disconnects. */
+  signal?: AbortSignal;
+  /**
+   * Milliseconds to wait for the provider to start responding before failing
+   * with a TimeoutError (for streams, until the response headers arrive)
+   */
+  timeoutMs?: number;
 }
 
 export interface LLMProvider {
   name: string;
+  /**
+   * Provider family, e.g. 'openai' for an Azure instance named 'azure'.
+   * Pricing and context windows fall back to it when `name` has no entry.
+   */
+  type?: string;
+  /** Model used when a request names none, if the provider has one */
+  readonly defaultModel?: string;
   isAvailable(): Promise<boolean>;
   generateCompletion(
     messages: LLMMessage[],
     options?: LLMProviderOptions
   ): Promise<LLMResponse>;
-}
\ No newline at end of file
+  streamCompletion(
+    messages: LLMMessage[],
+    options?: LLMProviderOptions
+  ): AsyncIterable<LLMStreamChunk>;
+  /**
+   * Models the provider serves right now, for the model catalog. Providers
+   * without it are listed with their default model only.
+   */
+  listModels?(): Promise<LLMDiscoveredModel[]>;
+}
@@ -0,0 +1,41 @@
+/**
+ * What a model can do. A missing flag means unknown: requests relying on it
+ * are passed through and left to the provider.
+ */
+export interface LLMModelCapabilities {
+  /** Tokens of prompt plus output the model accepts */
+  contextWindow?: number;
+  /** Chat completions; false for embedding-only and non-text models */
+  chat?: boolean;
+  /** Image parts in user messages */
+  vision?: boolean;
+  tools?: boolean;
+  /** `responseFormat`, i.e. JSON mode or a JSON schema */
+  jsonMode?: boolean;
+  streaming?: boolean;
+  embeddings?: boolean;
+}
+
+/** A model a provider reported through `listModels` */
+export interface LLMDiscoveredModel {
+  id: string;
+  /** Capabilities the provider reports, over the static metadata */
+  capabilities?: LLMModelCapabilities;
+}
+
+export interface LLMModelInfo {
+  /** Model name as requests pass it in `model` */
+  id: string;
+  /** Registered provider name */
+  provider: string;
+  /** Provider family, e.g. 'openai' for an Azure instance */
+  type?: string;
+  /** Used when a request to this provider names no model */
+  default: boolean;
+  /**
+   * 'discovered' when the provider listed the model, 'configured' when it is
+   * only known as the provider's default model
+   */
+  source: 'discovered' | 'configured';
+  capabilities: LLMModelCapabilities;
+}
@@ -0,0 +1,42 @@
+import { LLMMessage } from './llm-provider.interface';
+
+export interface PromptTemplateMessage {
+  role: Extract<LLMMessage['role'], 'system' | 'user' | 'assistant'>;
+  /** Text with `{{variable}}` placeholders */
+  content: string;
+}
+
+export interface PromptVariable {
+  name: string;
+  description?: string;
+  /** Used when the caller does not pass the variable; without one it is required */
+  default?: string;
+}
+
+/** Request options a template version pins, overridable per call */
+export interface PromptTemplateOptions {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+export interface LLMPromptTemplate {
+  name: string;
+  version: number;
+  messages: PromptTemplateMessage[];
+  variables: PromptVariable[];
+  options?: PromptTemplateOptions | null;
+}
+
+/**
+ * Where `LLMService.generateFromTemplate` looks templates up. Without a
+ * version the published one is returned; undefined means no such template.
+ */
+export interface LLMPromptSource {
+  getTemplate(
+    name: string,
+    version?: number
+  ): Promise<LLMPromptTemplate | undefined>;
+}
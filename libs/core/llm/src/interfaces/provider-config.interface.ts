@@ -0,0 +1,40 @@
+import { LLMProvider } from './llm-provider.interface';
+
+/** Per-instance settings accepted by the built-in providers */
+export interface LLMProviderInstanceOptions {
+  /** Registered name; set it to run several instances of one type */
+  name?: string;
+  baseUrl?: string;
+  /** Model used when a request does not name one */
+  defaultModel?: string;
+}
+
+export type LLMProviderClass = new (config: LLMProviderConfig) => LLMProvider;
+
+export type LLMProviderFactory = (config: LLMProviderConfig) => LLMProvider;
+
+/**
+ * Declares one provider instance for `LLMModuleOptions.providers` or the
+ * LLM_PROVIDERS environment variable (a JSON array of these).
+ */
+export interface LLMProviderConfig {
+  /**
+   * A built-in type ('openai', 'openai-compatible', 'azure-openai',
+   * 'claude', 'ollama', 'mock'), a type added through
+   * `LLMModuleOptions.providerTypes`, or a provider class, which is
+   * constructed with this config
+   */
+  type: string | LLMProviderClass;
+  /** Registered name (default: the type name) */
+  name?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  defaultModel?: string;
+  /** Set to false to keep the entry without registering it */
+  enabled?: boolean;
+  /**
+   * Type-specific settings, e.g. `apiVersion` for Azure OpenAI or `headers`
+   * and `models` for OpenAI-compatible servers
+   */
+  options?: Record<string, unknown>;
+}
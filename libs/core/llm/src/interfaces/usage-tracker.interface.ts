@@ -0,0 +1,30 @@
+import { LLMPromptRef, LLMUsage } from './llm-provider.interface';
+
+/** Who a request is made for; usage is only metered when `userId` is set. */
+export interface LLMRequestContext {
+  userId?: string;
+  /** Role of the user, used to pick the quota (e.g. a `UserRole` value) */
+  role?: string;
+  /** Name of the calling service, e.g. 'chat-service' */
+  service?: string;
+  /** Template the messages were rendered from; set by `generateFromTemplate` */
+  prompt?: LLMPromptRef;
+}
+
+export interface LLMUsageEvent {
+  operation: 'completion' | 'stream' | 'embedding';
+  provider: string;
+  model?: string;
+  usage?: LLMUsage;
+  estimatedCost?: number;
+}
+
+/**
+ * Hook LLMService calls around every metered request. `checkQuota` runs
+ * before the provider is called and rejects the request by throwing;
+ * `record` runs after it succeeded.
+ */
+export interface LLMUsageTracker {
+  checkQuota(context: LLMRequestContext): Promise<void>;
+  record(context: LLMRequestContext, event: LLMUsageEvent): Promise<void>;
+}
@@ -1,18 +1,244 @@
 import { DynamicModule, Module, Global } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { LLMService } from './llm.service';
-import { OpenAIProvider } from './providers/openai.provider';
-import { ClaudeProvider } from './providers/claude.provider';
-import { OllamaProvider } from './providers/ollama.provider';
+import { MockProviderOptions } from './providers/mock.provider';
+import { createProviders } from './providers/provider-registry';
+import {
+  LLMProviderConfig,
+  LLMProviderFactory,
+} from './interfaces/provider-config.interface';
+import { PricingTable } from './pricing/pricing.registry';
+import { LLMCacheOptions, ResponseCache } from './cache/response-cache';
+import { RedisCacheStore } from './cache/redis-cache.store';
+import { CircuitBreakerOptions } from './health/circuit-breaker';
+import {
+  ContextStrategy,
+  ContextWindowOptions,
+} from './context/context-window';
+import { ContextWindowTable } from './context/context-window.registry';
+import { ModelCapabilityTable } from './catalog/model-catalog';
+import { LLMModelAliasTable, LLMRoutingPolicy } from './routing/model-router';
 
 export interface LLMModuleOptions {
+  /**
+   * Provider instances to register, in order; defaults to LLM_PROVIDERS
+   * (JSON). Without either, the shorthand options and environment variables
+   * below decide which built-in providers are registered.
+   */
+  providers?: LLMProviderConfig[];
+  /** Extra provider types usable as `type` in `providers` */
+  providerTypes?: Record<string, LLMProviderFactory>;
+  /** Registers `openai`; defaults to OPENAI_API_KEY */
   openaiApiKey?: string;
+  /** Registers `claude`; defaults to ANTHROPIC_API_KEY */
   anthropicApiKey?: string;
+  /** Registers `ollama`; defaults to OLLAMA_BASE_URL */
   ollamaBaseUrl?: string;
+  /** Defaults to LLM_DEFAULT_PROVIDER, then `openai` or the first provider */
   defaultProvider?: string;
+  /** Defaults to every registered provider except `mock` types, in order */
   fallbackProviders?: string[];
   retryAttempts?: number;
   retryDelay?: number;
+  maxRetryDelay?: number;
+  contextFallbackModels?: { provider: string; model: string }[];
+  /** Default per-attempt request timeout; defaults to LLM_TIMEOUT_MS */
+  timeoutMs?: number;
+  defaultEmbeddingProvider?: string;
+  embeddingBatchSize?: number;
+  pricing?: PricingTable;
+  /**
+   * Response cache for `generateCompletion`; defaults to LLM_CACHE_ENABLED.
+   * Uses Redis from `redisUrl`, REDIS_URL or REDIS_HOST/PORT/PASSWORD, and
+   * an in-memory store when none is configured or Redis is down.
+   */
+  cache?: boolean | (LLMCacheOptions & { redisUrl?: string });
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Milliseconds between background provider health checks (default 30000,
+   * 0 disables)
+   */
+  healthCheckInterval?: number;
+  /**
+   * Default context window handling; the strategy defaults to
+   * LLM_CONTEXT_STRATEGY, then 'none'
+   */
+  contextWindow?: ContextWindowOptions;
+  /** Context window sizes merged over the defaults, e.g. for new models */
+  modelContextWindows?: ContextWindowTable;
+  /** Model capabilities merged over the defaults, e.g. for new models */
+  modelCapabilities?: ModelCapabilityTable;
+  /** Milliseconds discovered model lists are cached (default 600000) */
+  modelCatalogTtl?: number;
+  /**
+   * Model aliases merged over the defaults; defaults to LLM_MODEL_ALIASES
+   * (JSON)
+   */
+  modelAliases?: LLMModelAliasTable;
+  /** Policy of aliases without one; defaults to LLM_ROUTING_POLICY */
+  routingPolicy?: LLMRoutingPolicy;
+  /**
+   * Registers the offline `mock` provider; defaults to MOCK_LLM_RESPONSES.
+   * Requests only reach it when they name it or it is the default provider.
+   */
+  mock?: boolean | MockProviderOptions;
+}
+
+function resolveProviderConfigs(
+  llmOptions: LLMModuleOptions,
+  configService: ConfigService
+): LLMProviderConfig[] {
+  if (llmOptions.providers) {
+    return llmOptions.providers;
+  }
+
+  const declared = configService.get<string>('LLM_PROVIDERS');
+  if (declared) {
+    let configs: unknown;
+    try {
+      configs = JSON.parse(declared);
+    } catch (error) {
+      throw new Error(`LLM_PROVIDERS is not valid JSON: ${error}`);
+    }
+    if (!Array.isArray(configs)) {
+      throw new Error('LLM_PROVIDERS must be a JSON array of provider configs');
+    }
+    return configs;
+  }
+
+  const openaiKey =
+    llmOptions.openaiApiKey || configService.get<string>('OPENAI_API_KEY');
+  const anthropicKey =
+    llmOptions.anthropicApiKey ||
+    configService.get<string>('ANTHROPIC_API_KEY');
+  const ollamaUrl =
+    llmOptions.ollamaBaseUrl || configService.get<string>('OLLAMA_BASE_URL');
+  const mock =
+    llmOptions.mock ??
+    configService.get<string>('MOCK_LLM_RESPONSES') === 'true';
+
+  // Ordered like the former default fallback chain: local, then hosted
+  return [
+    { type: 'ollama', baseUrl: ollamaUrl, enabled: !!ollamaUrl },
+    { type: 'claude', apiKey: anthropicKey, enabled: !!anthropicKey },
+    { type: 'openai', apiKey: openaiKey, enabled: !!openaiKey },
+    {
+      type: 'mock',
+      enabled: !!mock,
+      options: typeof mock === 'object' ? { ...mock } : undefined,
+    },
+  ];
+}
+
+function resolveModelAliases(
+  configService: ConfigService
+): LLMModelAliasTable | undefined {
+  const declared = configService.get<string>('LLM_MODEL_ALIASES');
+  if (!declared) {
+    return undefined;
+  }
+
+  let aliases: unknown;
+  try {
+    aliases = JSON.parse(declared);
+  } catch (error) {
+    throw new Error(`LLM_MODEL_ALIASES is not valid JSON: ${error}`);
+  }
+  if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+    throw new Error('LLM_MODEL_ALIASES must be a JSON object of aliases');
+  }
+  return aliases as LLMModelAliasTable;
+}
+
+/** Registers the configured providers and applies the service settings */
+async function configureLLMService(
+  configService: ConfigService,
+  llmOptions: LLMModuleOptions,
+  llmService: LLMService
+): Promise<LLMService> {
+  const providers = createProviders(
+    resolveProviderConfigs(llmOptions, configService),
+    llmOptions.providerTypes
+  );
+  providers.forEach((provider) => llmService.registerProvider(provider));
+
+  const names = providers.map((provider) => provider.name);
+  const embeddingNames = providers
+    .filter((provider) => 'embed' in provider)
+    .map((provider) => provider.name);
+
+  llmService.configure({
+    defaultProvider:
+      llmOptions.defaultProvider ||
+      configService.get<string>('LLM_DEFAULT_PROVIDER') ||
+      (names.includes('openai') ? 'openai' : names[0]),
+    fallbackProviders:
+      llmOptions.fallbackProviders ||
+      providers
+        .filter((provider) => provider.type !== 'mock')
+        .map((provider) => provider.name),
+    retryAttempts: llmOptions.retryAttempts || 3,
+    retryDelay: llmOptions.retryDelay || 1000,
+    maxRetryDelay: llmOptions.maxRetryDelay,
+    contextFallbackModels: llmOptions.contextFallbackModels,
+    timeoutMs:
+      llmOptions.timeoutMs ||
+      Number(configService.get<string>('LLM_TIMEOUT_MS')) ||
+      undefined,
+    defaultEmbeddingProvider:
+      llmOptions.defaultEmbeddingProvider ||
+      configService.get<string>('LLM_EMBEDDING_PROVIDER') ||
+      (embeddingNames.includes('openai') ? 'openai' : embeddingNames[0]),
+    embeddingBatchSize: llmOptions.embeddingBatchSize || 100,
+    pricing: llmOptions.pricing,
+    circuitBreaker: llmOptions.circuitBreaker,
+    healthCheckInterval: llmOptions.healthCheckInterval,
+    contextWindow: {
+      strategy: configService.get<ContextStrategy>('LLM_CONTEXT_STRATEGY'),
+      ...llmOptions.contextWindow,
+    },
+    modelContextWindows: llmOptions.modelContextWindows,
+    modelCapabilities: llmOptions.modelCapabilities,
+    modelCatalogTtl: llmOptions.modelCatalogTtl,
+    modelAliases: llmOptions.modelAliases || resolveModelAliases(configService),
+    routingPolicy:
+      llmOptions.routingPolicy ||
+      configService.get<LLMRoutingPolicy>('LLM_ROUTING_POLICY'),
+  });
+  llmService.setResponseCache(createResponseCache(llmOptions, configService));
+
+  return llmService;
+}
+
+function createResponseCache(
+  llmOptions: LLMModuleOptions,
+  configService: ConfigService
+): ResponseCache | undefined {
+  const enabled =
+    llmOptions.cache ??
+    configService.get<string>('LLM_CACHE_ENABLED') === 'true';
+  if (!enabled) {
+    return undefined;
+  }
+
+  const cacheOptions =
+    typeof llmOptions.cache === 'object' ? llmOptions.cache : {};
+  const ttl = configService.get<string>('LLM_CACHE_TTL');
+  const redisHost = configService.get<string>('REDIS_HOST');
+  const redisPassword = configService.get<string>('REDIS_PASSWORD');
+  const redisUrl =
+    cacheOptions.redisUrl ||
+    configService.get<string>('REDIS_URL') ||
+    (redisHost
+      ? `redis://${
+          redisPassword ? `:${encodeURIComponent(redisPassword)}@` : ''
+        }${redisHost}:${configService.get<string>('REDIS_PORT') || 6379}`
+      : undefined);
+
+  return new ResponseCache(
+    { ttl: ttl ? Number(ttl) : undefined, ...cacheOptions },
+    redisUrl ? new RedisCacheStore(redisUrl) : undefined
+  );
 }
 
 @Global()
@@ -30,52 +256,7 @@ export class LLMModule {
         },
         {
           provide: 'LLM_PROVIDERS',
-          useFactory: async (
-            configService: ConfigService,
-            llmOptions: LLMModuleOptions,
-            llmService: LLMService
-          ) => {
-            // Get configuration from options or environment variables
-            const openaiKey =
-              llmOptions.openaiApiKey ||
-              configService.get<string>('OPENAI_API_KEY');
-            const anthropicKey =
-              llmOptions.anthropicApiKey ||
-              configService.get<string>('ANTHROPIC_API_KEY');
-            const ollamaUrl =
-              llmOptions.ollamaBaseUrl ||
-              configService.get<string>('OLLAMA_BASE_URL') ||
-              'http://localhost:11434';
-
-            // Create and register providers
-            if (openaiKey) {
-              const openaiProvider = new OpenAIProvider(openaiKey);
-              llmService.registerProvider(openaiProvider);
-            }
-
-            if (anthropicKey) {
-              const claudeProvider = new ClaudeProvider(anthropicKey);
-              llmService.registerProvider(claudeProvider);
-            }
-
-            const ollamaProvider = new OllamaProvider(ollamaUrl);
-            llmService.registerProvider(ollamaProvider);
-
-            // Configure the service
-            llmService.configure({
-              defaultProvider:
-                llmOptions.defaultProvider ||
-                configService.get<string>('LLM_DEFAULT_PROVIDER') ||
-                'openai',
-              fallbackProviders:
-                llmOptions.fallbackProviders ||
-                ['ollama', 'claude', 'openai'],
-              retryAttempts: llmOptions.retryAttempts || 3,
-              retryDelay: llmOptions.retryDelay || 1000,
-            });
-
-            return llmService;
-          },
+          useFactory: configureLLMService,
           inject: [ConfigService, 'LLM_OPTIONS', LLMService],
         },
       ],
@@ -102,52 +283,7 @@ export class LLMModule {
         },
         {
           provide: 'LLM_PROVIDERS',
-          useFactory: async (
-            configService: ConfigService,
-            llmOptions: LLMModuleOptions,
-            llmService: LLMService
-          ) => {
-            // Get configuration from options or environment variables
-            const openaiKey =
-              llmOptions.openaiApiKey ||
-              configService.get<string>('OPENAI_API_KEY');
-            const anthropicKey =
-              llmOptions.anthropicApiKey ||
-              configService.get<string>('ANTHROPIC_API_KEY');
-            const ollamaUrl =
-              llmOptions.ollamaBaseUrl ||
-              configService.get<string>('OLLAMA_BASE_URL') ||
-              'http://localhost:11434';
-
-            // Create and register providers
-            if (openaiKey) {
-              const openaiProvider = new OpenAIProvider(openaiKey);
-              llmService.registerProvider(openaiProvider);
-            }
-
-            if (anthropicKey) {
-              const claudeProvider = new ClaudeProvider(anthropicKey);
-              llmService.registerProvider(claudeProvider);
-            }
-
-            const ollamaProvider = new OllamaProvider(ollamaUrl);
-            llmService.registerProvider(ollamaProvider);
-
-            // Configure the service
-            llmService.configure({
-              defaultProvider:
-                llmOptions.defaultProvider ||
-                configService.get<string>('LLM_DEFAULT_PROVIDER') ||
-                'openai',
-              fallbackProviders:
-                llmOptions.fallbackProviders ||
-                ['ollama', 'claude', 'openai'],
-              retryAttempts: llmOptions.retryAttempts || 3,
-              retryDelay: llmOptions.retryDelay || 1000,
-            });
-
-            return llmService;
-          },
+          useFactory: configureLLMService,
           inject: [ConfigService, 'LLM_OPTIONS', LLMService],
         },
       ],
@@ -0,0 +1,745 @@
+import { IsInt, IsString, Min } from 'class-validator';
+import { LLMService } from './llm.service';
+import { ClaudeProvider } from './providers/claude.provider';
+import { MockProvider, MockResponse } from './providers/mock.provider';
+import { ResponseCache } from './cache/response-cache';
+import { StructuredOutputError } from './errors/structured-output.error';
+import {
+  AuthenticationError,
+  InvalidRequestError,
+  ProviderUnavailableError,
+  RateLimitError,
+} from './errors/llm-provider.error';
+import { LLMMessage, LLMToolCall } from './interfaces/llm-provider.interface';
+
+describe('LLMService', () => {
+  let service: LLMService;
+
+  beforeEach(() => {
+    service = new LLMService();
+    service.configure({
+      defaultProvider: 'claude',
+      fallbackProviders: [],
+      retryAttempts: 1,
+      retryDelay: 0,
+      healthCheckInterval: 0,
+    });
+  });
+
+  describe('context summarization on Claude', () => {
+    let create: jest.SpyInstance;
+
+    const reply = (text: string) => ({
+      content: [{ type: 'text', text }],
+      stop_reason: 'end_turn',
+      model: 'claude-3-5-sonnet-latest',
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+
+    beforeEach(() => {
+      const provider = new ClaudeProvider('test-key');
+      create = jest
+        .spyOn(provider['client']!.messages, 'create')
+        .mockResolvedValueOnce(
+          reply('The user is planning a trip to Busan.') as never
+        )
+        .mockResolvedValueOnce(reply('Try Haeundae in the morning.') as never);
+      service.registerProvider(provider);
+    });
+
+    it('should send the summary with the system prompt', async () => {
+      const messages: LLMMessage[] = [
+        { role: 'system', content: 'You are a travel assistant.' },
+        ...Array.from({ length: 6 }, (_, i): LLMMessage[] => [
+          { role: 'user', content: `Question ${i} about Busan `.repeat(20) },
+          { role: 'assistant', content: `Answer ${i} about Busan `.repeat(20) },
+        ]).flat(),
+        { role: 'user', content: 'Where should I go first?' },
+      ];
+
+      const response = await service.generateCompletion(messages, {
+        contextWindow: {
+          strategy: 'summarize',
+          maxPromptTokens: 200,
+          keepRecent: 1,
+        },
+      });
+
+      expect(response.content).toBe('Try Haeundae in the morning.');
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(create.mock.calls[0][0]).toMatchObject({
+        model: 'claude-3-5-haiku-latest',
+      });
+      const request = create.mock.calls[1][0];
+      expect(request.system).toBe(
+        'You are a travel assistant.\n\n' +
+          'Summary of the earlier conversation:\n' +
+          'The user is planning a trip to Busan.'
+      );
+      expect(request.messages).toEqual([
+        { role: 'user', content: 'Where should I go first?' },
+      ]);
+    });
+  });
+
+  describe('response cache with model aliases', () => {
+    beforeEach(() => {
+      service.configure({
+        modelAliases: {
+          duo: {
+            targets: ['openai/model-a', 'claude/model-b'],
+            policy: 'round-robin',
+          },
+        },
+      });
+      service.registerProvider(
+        new MockProvider({ name: 'openai', responses: ['from openai'] })
+      );
+      service.registerProvider(
+        new MockProvider({ name: 'claude', responses: ['from claude'] })
+      );
+      service.setResponseCache(new ResponseCache());
+    });
+
+    it('should key cached responses by the routed provider and model', async () => {
+      const messages: LLMMessage[] = [{ role: 'user', content: 'hi' }];
+      const ask = (model: string, provider?: string) =>
+        service.generateCompletion(messages, {
+          provider,
+          model,
+          temperature: 0,
+        });
+
+      expect(await ask('duo')).toMatchObject({ content: 'from openai' });
+      // Routed to the other target, so the first answer is not reused
+      expect(await ask('duo')).toMatchObject({ content: 'from claude' });
+      expect(await ask('model-b', 'claude')).toMatchObject({
+        content: 'from claude',
+        cached: true,
+      });
+    });
+  });
+
+  describe('prompt templates', () => {
+    let openai: MockProvider;
+    let claude: MockProvider;
+
+    beforeEach(() => {
+      openai = new MockProvider({ name: 'openai' });
+      claude = new MockProvider({ name: 'claude' });
+      service.registerProvider(openai);
+      service.registerProvider(claude);
+      service.configure({ defaultProvider: 'openai' });
+      service.setPromptSource({
+        getTemplate: async (name) => ({
+          name,
+          version: 3,
+          messages: [{ role: 'system', content: 'Be brief.' }],
+          variables: [],
+          options: {
+            provider: 'claude',
+            model: 'pinned-model',
+            temperature: 0.2,
+            maxTokens: 42,
+          },
+        }),
+      });
+    });
+
+    it('should keep pinned options the call leaves undefined', async () => {
+      const response = await service.generateFromTemplate(
+        'assistant',
+        {},
+        {
+          messages: [{ role: 'user', content: 'hi' }],
+          provider: undefined,
+          model: undefined,
+          temperature: undefined,
+        }
+      );
+
+      expect(response.prompt).toEqual({ name: 'assistant', version: 3 });
+      expect(openai.calls).toHaveLength(0);
+      expect(claude.calls[0].options).toMatchObject({
+        model: 'pinned-model',
+        temperature: 0.2,
+        maxTokens: 42,
+      });
+    });
+
+    it('should keep pinned options when streaming', async () => {
+      const stream = service.streamFromTemplate(
+        'assistant',
+        {},
+        { messages: [{ role: 'user', content: 'hi' }], provider: undefined }
+      );
+      for await (const chunk of stream) {
+        expect(chunk.provider).toBe('claude');
+      }
+
+      expect(claude.calls[0]).toMatchObject({
+        stream: true,
+        options: { model: 'pinned-model', maxTokens: 42 },
+      });
+    });
+
+    it('should let defined call options override pinned ones', async () => {
+      await service.generateFromTemplate(
+        'assistant',
+        {},
+        {
+          messages: [{ role: 'user', content: 'hi' }],
+          provider: 'openai',
+          model: 'gpt-4o-mini',
+          temperature: 0,
+        }
+      );
+
+      expect(claude.calls).toHaveLength(0);
+      expect(openai.calls[0].options).toMatchObject({
+        model: 'gpt-4o-mini',
+        temperature: 0,
+        maxTokens: 42,
+      });
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should send a single trial call to a recovering provider', async () => {
+      const messages: LLMMessage[] = [{ role: 'user', content: 'hi' }];
+      let now = 1_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      const provider = new MockProvider({ name: 'openai', latencyMs: 10 });
+      service.registerProvider(provider);
+      service.configure({
+        defaultProvider: 'openai',
+        circuitBreaker: { minimumRequests: 1, openDuration: 1000 },
+      });
+
+      provider.failNext();
+      await expect(service.generateCompletion(messages)).rejects.toThrow();
+      now += 1000;
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 3 }, () => service.generateCompletion(messages))
+      );
+
+      expect(results.map((result) => result.status)).toEqual([
+        'fulfilled',
+        'rejected',
+        'rejected',
+      ]);
+      expect(provider.calls).toHaveLength(2);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('streamCompletion', () => {
+    const messages: LLMMessage[] = [{ role: 'user', content: 'hi' }];
+    let provider: MockProvider;
+
+    const collect = async (options = {}) => {
+      const chunks = [];
+      for await (const chunk of service.streamCompletion(messages, options)) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    beforeEach(() => {
+      provider = new MockProvider({
+        name: 'mock',
+        responses: [
+          {
+            content: 'Hello there',
+            usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+          },
+        ],
+      });
+      service.registerProvider(provider);
+      service.configure({ defaultProvider: 'mock' });
+    });
+
+    it('should yield deltas followed by a final chunk with usage', async () => {
+      const chunks = await collect();
+
+      expect(chunks.map((chunk) => chunk.delta)).toEqual([
+        'Hello ',
+        'there',
+        '',
+      ]);
+      expect(chunks.map((chunk) => chunk.done)).toEqual([false, false, true]);
+      expect(chunks[2]).toMatchObject({
+        provider: 'mock',
+        usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+      });
+      expect(provider.calls[0].stream).toBe(true);
+    });
+
+    it('should fall back when the provider fails before the first chunk', async () => {
+      const backup = new MockProvider({ name: 'backup', responses: ['Hi'] });
+      service.registerProvider(backup);
+      service.configure({ fallbackProviders: ['backup'] });
+      provider.failNext();
+
+      const chunks = await collect();
+
+      expect(chunks.map((chunk) => chunk.delta).join('')).toBe('Hi');
+      expect(chunks[chunks.length - 1]).toMatchObject({
+        done: true,
+        provider: 'backup',
+      });
+    });
+
+    it('should stop reading the provider when the consumer breaks early', async () => {
+      const stream = service.streamCompletion(messages);
+      for await (const chunk of stream) {
+        expect(chunk.delta).toBe('Hello ');
+        break;
+      }
+
+      await expect(stream.next()).resolves.toEqual({
+        done: true,
+        value: undefined,
+      });
+    });
+  });
+
+  describe('runTools', () => {
+    const messages: LLMMessage[] = [
+      { role: 'user', content: 'Weather in Seoul?' },
+    ];
+    const weatherCall: LLMToolCall = {
+      id: 'call-1',
+      name: 'get_weather',
+      arguments: { city: 'Seoul' },
+    };
+    const definition = {
+      name: 'get_weather',
+      parameters: { type: 'object', properties: { city: { type: 'string' } } },
+    };
+    const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+
+    const register = (...responses: (MockResponse | string)[]) => {
+      const provider = new MockProvider({ name: 'mock', responses });
+      service.registerProvider(provider);
+      service.configure({ defaultProvider: 'mock' });
+      return provider;
+    };
+
+    it('should run requested tools and send their results back', async () => {
+      const provider = register(
+        { toolCalls: [weatherCall], usage },
+        { content: 'Sunny, 21°C', usage }
+      );
+      const handler = jest.fn().mockResolvedValue({ temperature: 21 });
+
+      const result = await service.runTools(messages, [
+        { definition, handler },
+      ]);
+
+      expect(handler).toHaveBeenCalledWith({ city: 'Seoul' }, weatherCall);
+      expect(result.iterations).toBe(2);
+      expect(result.response).toMatchObject({
+        content: 'Sunny, 21°C',
+        usage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+      });
+      expect(provider.calls[0].options.tools).toEqual([definition]);
+      expect(provider.calls[1].messages.slice(1)).toEqual([
+        { role: 'assistant', content: '', toolCalls: [weatherCall] },
+        {
+          role: 'tool',
+          toolCallId: 'call-1',
+          name: 'get_weather',
+          content: '{"temperature":21}',
+        },
+      ]);
+    });
+
+    it('should report handler failures and unknown tools to the model', async () => {
+      const provider = register(
+        {
+          toolCalls: [
+            weatherCall,
+            { id: 'call-2', name: 'book_flight', arguments: {} },
+          ],
+        },
+        'Sorry, the weather service is down.'
+      );
+
+      await service.runTools(messages, [
+        {
+          definition,
+          handler: () => {
+            throw new Error('Service down');
+          },
+        },
+      ]);
+
+      expect(
+        provider.calls[1].messages
+          .filter((message) => message.role === 'tool')
+          .map((message) => message.content)
+      ).toEqual([
+        '{"error":"Service down"}',
+        '{"error":"Unknown tool: book_flight"}',
+      ]);
+    });
+
+    it('should stop after maxIterations', async () => {
+      register({ toolCalls: [weatherCall] });
+
+      await expect(
+        service.runTools(messages, [{ definition, handler: () => 'ok' }], {
+          maxIterations: 2,
+        })
+      ).rejects.toThrow('Tool loop did not finish within 2 iterations');
+    });
+  });
+
+  describe('generateObject', () => {
+    const messages: LLMMessage[] = [
+      { role: 'user', content: 'Describe Seoul as JSON.' },
+    ];
+    const schema = {
+      type: 'object',
+      properties: {
+        city: { type: 'string' },
+        population: { type: 'integer', minimum: 0 },
+      },
+      required: ['city', 'population'],
+    };
+
+    class CityDto {
+      @IsString()
+      city!: string;
+
+      @IsInt()
+      @Min(0)
+      population!: number;
+    }
+
+    const register = (...responses: string[]) => {
+      const provider = new MockProvider({ name: 'mock', responses });
+      service.registerProvider(provider);
+      service.configure({ defaultProvider: 'mock' });
+      return provider;
+    };
+
+    it('should return the parsed object and request JSON output', async () => {
+      const provider = register('{"city":"Seoul","population":9400000}');
+
+      const result = await service.generateObject(messages, schema, {
+        schemaName: 'city',
+      });
+
+      expect(result).toMatchObject({
+        object: { city: 'Seoul', population: 9400000 },
+        attempts: 1,
+      });
+      expect(provider.calls[0].options.responseFormat).toEqual({
+        type: 'json',
+        name: 'city',
+        schema,
+      });
+    });
+
+    it('should re-prompt with the validation errors of invalid output', async () => {
+      const provider = register(
+        '{"city":"Seoul"}',
+        '{"city":"Seoul","population":9400000}'
+      );
+
+      const result = await service.generateObject(messages, schema);
+
+      expect(result.attempts).toBe(2);
+      expect(provider.calls[1].messages.slice(-2)).toEqual([
+        { role: 'assistant', content: '{"city":"Seoul"}' },
+        {
+          role: 'user',
+          content: expect.stringContaining(
+            "must have required property 'population'"
+          ),
+        },
+      ]);
+    });
+
+    it('should validate against a class-validator DTO', async () => {
+      const provider = register('{"city":"Seoul","population":-1}', 'not json');
+
+      const error = await service
+        .generateObject(messages, CityDto, { maxRetries: 1 })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error).toMatchObject({
+        attempts: 2,
+        content: 'not json',
+        errors: [expect.stringContaining('Invalid JSON')],
+      });
+      expect(provider.calls[1].messages[2].content).toContain(
+        'population: population must not be less than 0'
+      );
+    });
+
+    it('should return a DTO instance for valid output', async () => {
+      register('{"city":"Seoul","population":9400000}');
+
+      const { object } = await service.generateObject(messages, CityDto);
+
+      expect(object).toBeInstanceOf(CityDto);
+    });
+
+    it('should throw StructuredOutputError once retries run out', async () => {
+      const provider = register('{"city":42,"population":1}');
+
+      await expect(
+        service.generateObject(messages, schema, { maxRetries: 2 })
+      ).rejects.toMatchObject({
+        name: 'StructuredOutputError',
+        attempts: 3,
+        errors: ['/city must be string'],
+      });
+      expect(provider.calls).toHaveLength(3);
+    });
+  });
+
+  describe('response cache', () => {
+    const messages: LLMMessage[] = [{ role: 'user', content: 'hi' }];
+    const usage = { promptTokens: 3, completionTokens: 1, totalTokens: 4 };
+    let provider: MockProvider;
+
+    beforeEach(() => {
+      provider = new MockProvider({
+        name: 'mock',
+        responses: [{ content: 'Hello', usage }],
+      });
+      service.registerProvider(provider);
+      service.configure({
+        defaultProvider: 'mock',
+        pricing: { mock: { '*': { input: 1, output: 1 } } },
+      });
+      service.setResponseCache(new ResponseCache());
+    });
+
+    it('should serve a repeated deterministic request from the cache', async () => {
+      const first = await service.generateCompletion(messages, {
+        temperature: 0,
+      });
+      const second = await service.generateCompletion(messages, {
+        temperature: 0,
+      });
+
+      expect(first.cached).toBeUndefined();
+      expect(first.estimatedCost).toBeGreaterThan(0);
+      expect(second).toMatchObject({
+        content: 'Hello',
+        usage,
+        cached: true,
+        estimatedCost: 0,
+      });
+      expect(provider.calls).toHaveLength(1);
+      expect(service.getCacheStats()).toMatchObject({
+        store: 'memory',
+        hits: 1,
+        misses: 1,
+      });
+    });
+
+    it('should miss when anything shaping the answer differs', async () => {
+      await service.generateCompletion(messages, { temperature: 0 });
+      await service.generateCompletion(messages, {
+        temperature: 0,
+        maxTokens: 10,
+      });
+      await service.generateCompletion([{ role: 'user', content: 'hello' }], {
+        temperature: 0,
+      });
+
+      expect(provider.calls).toHaveLength(3);
+    });
+
+    it('should only cache sampled requests that opt in', async () => {
+      await service.generateCompletion(messages, { temperature: 0.7 });
+      await service.generateCompletion(messages, { temperature: 0.7 });
+      expect(provider.calls).toHaveLength(2);
+
+      await service.generateCompletion(messages, {
+        temperature: 0.7,
+        cache: true,
+      });
+      await service.generateCompletion(messages, {
+        temperature: 0.7,
+        cache: true,
+      });
+      expect(provider.calls).toHaveLength(3);
+    });
+
+    it('should bypass the cache with cache: false', async () => {
+      await service.generateCompletion(messages, { temperature: 0 });
+      await service.generateCompletion(messages, {
+        temperature: 0,
+        cache: false,
+      });
+
+      expect(provider.calls).toHaveLength(2);
+    });
+
+    it('should answer when the cache store fails', async () => {
+      service.setResponseCache(
+        new ResponseCache(
+          {},
+          {
+            name: 'redis',
+            isReady: () => true,
+            get: () => Promise.reject(new Error('connection reset')),
+            set: () => Promise.reject(new Error('connection reset')),
+          }
+        )
+      );
+
+      await expect(
+        service.generateCompletion(messages, { temperature: 0 })
+      ).resolves.toMatchObject({ content: 'Hello' });
+      expect(service.getCacheStats()).toMatchObject({
+        store: 'redis',
+        errors: 2,
+      });
+    });
+  });
+
+  describe('retry and fallback', () => {
+    const messages: LLMMessage[] = [{ role: 'user', content: 'hi' }];
+    let primary: MockProvider;
+    let backup: MockProvider;
+    let local: MockProvider;
+
+    beforeEach(() => {
+      primary = new MockProvider({ name: 'primary', responses: ['primary'] });
+      backup = new MockProvider({ name: 'backup', responses: ['backup'] });
+      local = new MockProvider({ name: 'local', responses: ['local'] });
+      [primary, backup, local].forEach((provider) =>
+        service.registerProvider(provider)
+      );
+      service.configure({
+        defaultProvider: 'primary',
+        fallbackProviders: ['backup', 'local'],
+        retryAttempts: 3,
+        retryDelay: 0,
+      });
+    });
+
+    it('should retry retryable errors on the same provider', async () => {
+      primary.failNext(2);
+
+      const response = await service.generateCompletion(messages);
+
+      expect(response.content).toBe('primary');
+      expect(primary.calls).toHaveLength(3);
+      expect(backup.calls).toHaveLength(0);
+    });
+
+    it('should honor Retry-After up to maxRetryDelay', async () => {
+      service.configure({ maxRetryDelay: 1000 });
+      primary.failNext(1, new RateLimitError('slow down', 'primary', 5000));
+
+      const response = await service.generateCompletion(messages);
+
+      expect(primary.calls).toHaveLength(1);
+      expect(response.content).toBe('backup');
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      primary.failNext(1, new AuthenticationError('bad key', 'primary', 401));
+
+      const response = await service.generateCompletion(messages);
+
+      expect(primary.calls).toHaveLength(1);
+      expect(response.content).toBe('backup');
+    });
+
+    it('should neither retry nor fall back on an invalid request', async () => {
+      primary.failNext(1, new InvalidRequestError('bad input', 'primary', 400));
+
+      await expect(service.generateCompletion(messages)).rejects.toBeInstanceOf(
+        InvalidRequestError
+      );
+      expect(primary.calls).toHaveLength(1);
+      expect(backup.calls).toHaveLength(0);
+    });
+
+    it('should try fallback providers in order', async () => {
+      primary.failNext(3);
+      backup.failNext(3);
+
+      const response = await service.generateCompletion(messages);
+
+      expect(response).toMatchObject({ content: 'local', provider: 'local' });
+      expect(primary.calls).toHaveLength(3);
+      expect(backup.calls).toHaveLength(3);
+      expect(local.calls).toHaveLength(1);
+    });
+
+    it('should throw the primary error when every provider fails', async () => {
+      const error = new ProviderUnavailableError('down', 'primary', 503);
+      primary.failNext(3, error);
+      backup.failNext(3);
+      local.failNext(3);
+
+      await expect(service.generateCompletion(messages)).rejects.toBe(error);
+    });
+  });
+
+  describe('cancellation', () => {
+    const messages: LLMMessage[] = [{ role: 'user', content: 'hi' }];
+    let primary: MockProvider;
+    let backup: MockProvider;
+
+    beforeEach(() => {
+      primary = new MockProvider({
+        name: 'primary',
+        responses: ['primary'],
+        latencyMs: 50,
+      });
+      backup = new MockProvider({ name: 'backup', responses: ['backup'] });
+      service.registerProvider(primary);
+      service.registerProvider(backup);
+      service.configure({
+        defaultProvider: 'primary',
+        fallbackProviders: ['backup'],
+        retryAttempts: 3,
+        retryDelay: 0,
+      });
+    });
+
+    it('should stop retries and fallback once the caller aborts', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(
+        service.generateCompletion(messages, { signal: controller.signal })
+      ).rejects.toBeDefined();
+      expect(primary.calls).toHaveLength(1);
+      expect(backup.calls).toHaveLength(0);
+    });
+
+    it('should reject right away when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        service.generateCompletion(messages, { signal: controller.signal })
+      ).rejects.toBeDefined();
+      expect(backup.calls).toHaveLength(0);
+    });
+
+    it('should retry a timed out request and then fall back', async () => {
+      const response = await service.generateCompletion(messages, {
+        timeoutMs: 5,
+      });
+
+      expect(response.content).toBe('backup');
+      expect(primary.calls).toHaveLength(3);
+    });
+  });
+});
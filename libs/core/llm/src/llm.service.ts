@@ -1,26 +1,252 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import Ajv from 'ajv';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
 import {
   LLMProvider,
   LLMMessage,
   LLMResponse,
   LLMProviderOptions,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMResponseFormat,
+  LLMPromptRef,
 } from './interfaces/llm-provider.interface';
+import {
+  EmbeddingProvider,
+  EmbeddingOptions,
+  EmbeddingResponse,
+} from './interfaces/embedding-provider.interface';
+import {
+  LLMRequestContext,
+  LLMUsageEvent,
+  LLMUsageTracker,
+} from './interfaces/usage-tracker.interface';
+import {
+  LLMPromptSource,
+  PromptTemplateOptions,
+} from './interfaces/prompt-source.interface';
+import { StructuredOutputError } from './errors/structured-output.error';
+import { ModelCapabilityError } from './errors/model-capability.error';
+import { PromptTemplateError } from './errors/prompt-template.error';
+import {
+  ContextLengthError,
+  InvalidRequestError,
+  LLMProviderError,
+  ProviderUnavailableError,
+  RateLimitError,
+} from './errors/llm-provider.error';
+import {
+  getMessageImages,
+  getMessageText,
+  hasImages,
+} from './utils/message-content';
+import { renderPromptTemplate } from './utils/prompt-template';
+import {
+  ContextWindowRegistry,
+  ContextWindowTable,
+} from './context/context-window.registry';
+import {
+  ContextFitResult,
+  ContextStrategy,
+  ContextWindowOptions,
+  fitContextWindow,
+} from './context/context-window';
+import { estimatePromptTokens } from './utils/token-estimator';
+import { PricingRegistry, PricingTable } from './pricing/pricing.registry';
+import { ModelCapabilityTable, ModelCatalog } from './catalog/model-catalog';
+import {
+  LLMModelAliasTable,
+  LLMResolvedModelAlias,
+  LLMRouteTarget,
+  LLMRoutingPolicy,
+  ModelRouter,
+} from './routing/model-router';
+import {
+  LLMModelCapabilities,
+  LLMModelInfo,
+} from './interfaces/model-catalog.interface';
+import { LLMCacheStats, ResponseCache } from './cache/response-cache';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitStatus,
+} from './health/circuit-breaker';
 
 export interface LLMServiceOptions {
   defaultProvider?: string;
   fallbackProviders?: string[];
   retryAttempts?: number;
+  /** Base delay in milliseconds, doubled (with jitter) on every retry */
   retryDelay?: number;
+  /**
+   * Longest wait between attempts, including a rate limit's Retry-After;
+   * longer waits skip straight to the fallback providers
+   */
+  maxRetryDelay?: number;
+  /**
+   * Models to retry on when a prompt exceeds the context window, tried in
+   * order; the first that differs from the failing one is used
+   */
+  contextFallbackModels?: { provider: string; model: string }[];
+  /** Default `timeoutMs` for requests that do not set one */
+  timeoutMs?: number;
+  defaultEmbeddingProvider?: string;
+  /** Maximum number of texts sent to the provider in one embedding request */
+  embeddingBatchSize?: number;
+  /** Prices merged over the defaults, e.g. for new models or negotiated rates */
+  pricing?: PricingTable;
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Milliseconds between background `isAvailable` checks; 0 disables them */
+  healthCheckInterval?: number;
+  /** Context window handling for requests that do not set `contextWindow` */
+  contextWindow?: ContextWindowOptions;
+  /** Context window sizes merged over the defaults */
+  modelContextWindows?: ContextWindowTable;
+  /** Model capabilities merged over the defaults */
+  modelCapabilities?: ModelCapabilityTable;
+  /** Milliseconds a provider's discovered model list is reused */
+  modelCatalogTtl?: number;
+  /** Model aliases merged over the defaults (`fast`, `smart`, `cheap`, `local`) */
+  modelAliases?: LLMModelAliasTable;
+  /** Policy of aliases that do not set one (default 'ordered') */
+  routingPolicy?: LLMRoutingPolicy;
+}
+
+export interface ProviderStatus {
+  /** Last health check passed and the circuit is not open */
+  available: boolean;
+  circuit: CircuitStatus;
+  lastCheckedAt?: Date;
+}
+
+export type LLMRequestOptions = LLMProviderOptions & {
+  provider?: string;
+  context?: LLMRequestContext;
+  /**
+   * Overrides the response cache policy for this call: `false` bypasses the
+   * cache, `true` caches even a non-deterministic request
+   */
+  cache?: boolean;
+  /** How to fit a prompt longer than the model's context window */
+  contextWindow?: ContextStrategy | ContextWindowOptions;
+  /** Overrides the routing policy when `model` names an alias */
+  routing?: LLMRoutingPolicy;
+};
+
+export type LLMTemplateRequestOptions = LLMRequestOptions & {
+  /** Renders this version instead of the published one */
+  version?: number;
+  /** Appended after the rendered template, e.g. conversation history */
+  messages?: LLMMessage[];
+};
+
+export interface LLMRenderedPrompt {
+  messages: LLMMessage[];
+  prompt: LLMPromptRef;
+  /** Request options pinned by the template version */
+  options: PromptTemplateOptions;
+}
+
+// Output tokens reserved when the request does not set maxTokens
+const DEFAULT_OUTPUT_RESERVE = 1024;
+const SUMMARY_MAX_TOKENS = 500;
+const SUMMARY_PROMPT =
+  'Summarize the conversation below for an assistant that will continue it. ' +
+  'Keep facts, decisions, names, numbers and open questions. Write in the ' +
+  'language of the conversation and reply with the summary only.';
+
+// Cheaper models used for summaries when `summaryModel` names none
+const DEFAULT_SUMMARY_MODELS: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  claude: 'claude-3-5-haiku-latest',
+};
+
+type ProviderRegistry<P> = {
+  providers: Map<string, P>;
+  defaultProvider?: string;
+};
+
+export type LLMToolHandler = (
+  args: Record<string, unknown>,
+  call: LLMToolCall
+) => unknown | Promise<unknown>;
+
+export interface LLMTool {
+  definition: LLMToolDefinition;
+  handler: LLMToolHandler;
+}
+
+export interface LLMToolRunResult {
+  /** Final answer, with usage summed over every round trip */
+  response: LLMResponse;
+  /** Full transcript including assistant tool calls and tool results */
+  messages: LLMMessage[];
+  iterations: number;
+}
+
+/** A JSON Schema object or a class-validator decorated DTO class */
+export type LLMObjectSchema<T> = Record<string, unknown> | ClassConstructor<T>;
+
+export interface LLMObjectResult<T> {
+  object: T;
+  /** Last completion, with usage summed over every attempt */
+  response: LLMResponse;
+  attempts: number;
 }
 
 @Injectable()
-export class LLMService {
+export class LLMService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(LLMService.name);
   private providers: Map<string, LLMProvider> = new Map();
+  private embeddingProviders: Map<string, EmbeddingProvider> = new Map();
   private defaultProvider?: string;
+  private defaultEmbeddingProvider?: string;
+  private embeddingBatchSize = 100;
   private fallbackProviders: string[] = [];
   private retryAttempts = 3;
   private retryDelay = 1000;
+  private maxRetryDelay = 30000;
+  private timeoutMs?: number;
+  private contextFallbackModels: { provider: string; model: string }[] = [
+    { provider: 'openai', model: 'gpt-4.1' },
+    { provider: 'claude', model: 'claude-sonnet-4-0' },
+  ];
+  private readonly ajv = new Ajv({ allErrors: true, strict: false });
+  private usageTracker?: LLMUsageTracker;
+  private promptSource?: LLMPromptSource;
+  private readonly pricing = new PricingRegistry();
+  private responseCache?: ResponseCache;
+  private circuitOptions: CircuitBreakerOptions = {};
+  private readonly circuits = new Map<string, CircuitBreaker>();
+  private readonly health = new Map<
+    string,
+    { available: boolean; checkedAt: Date }
+  >();
+  private healthCheckInterval = 30000;
+  private healthCheckTimer?: ReturnType<typeof setInterval>;
+  private readonly contextWindows = new ContextWindowRegistry();
+  private readonly catalog = new ModelCatalog(this.contextWindows);
+  private readonly router = new ModelRouter({
+    isRegistered: (name) => this.providers.has(name),
+    isRoutable: (name) => this.isRoutable(name),
+    price: (name, model) => {
+      const price = this.pricing.getPrice(
+        name,
+        model || this.providers.get(name)?.defaultModel,
+        this.providerType(name)
+      );
+      return price && price.input + price.output;
+    },
+    latency: (name) => this.circuits.get(name)?.getStatus().averageLatencyMs,
+  });
+  private contextWindowDefaults: ContextWindowOptions = {};
 
   configure(options: LLMServiceOptions) {
     if (options.defaultProvider) {
@@ -35,57 +261,923 @@ export class LLMService {
     if (options.retryDelay !== undefined) {
       this.retryDelay = options.retryDelay;
     }
+    if (options.maxRetryDelay !== undefined) {
+      this.maxRetryDelay = options.maxRetryDelay;
+    }
+    if (options.contextFallbackModels) {
+      this.contextFallbackModels = options.contextFallbackModels;
+    }
+    if (options.timeoutMs !== undefined) {
+      this.timeoutMs = options.timeoutMs;
+    }
+    if (options.defaultEmbeddingProvider) {
+      this.defaultEmbeddingProvider = options.defaultEmbeddingProvider;
+    }
+    if (options.embeddingBatchSize !== undefined) {
+      this.embeddingBatchSize = options.embeddingBatchSize;
+    }
+    if (options.pricing) {
+      this.pricing.merge(options.pricing);
+    }
+    if (options.circuitBreaker) {
+      this.circuitOptions = options.circuitBreaker;
+      this.circuits.clear();
+    }
+    if (options.healthCheckInterval !== undefined) {
+      this.healthCheckInterval = options.healthCheckInterval;
+    }
+    if (options.contextWindow) {
+      this.contextWindowDefaults = options.contextWindow;
+    }
+    if (options.modelContextWindows) {
+      this.contextWindows.merge(options.modelContextWindows);
+    }
+    if (options.modelCapabilities) {
+      this.catalog.merge(options.modelCapabilities);
+    }
+    if (options.modelCatalogTtl !== undefined) {
+      this.catalog.setTtl(options.modelCatalogTtl);
+    }
+    if (options.modelAliases) {
+      this.router.merge(options.modelAliases);
+    }
+    if (options.routingPolicy) {
+      this.router.setDefaultPolicy(options.routingPolicy);
+    }
   }
 
   registerProvider(provider: LLMProvider) {
     this.providers.set(provider.name, provider);
     this.logger.log(`Registered LLM provider: ${provider.name}`);
+
+    if ('embed' in provider && typeof provider.embed === 'function') {
+      this.registerEmbeddingProvider(
+        provider as LLMProvider & EmbeddingProvider
+      );
+    }
+  }
+
+  /** Family of a registered provider instance, for pricing and context lookups */
+  private providerType(name: string): string | undefined {
+    return this.providers.get(name)?.type;
+  }
+
+  registerEmbeddingProvider(provider: EmbeddingProvider) {
+    this.embeddingProviders.set(provider.name, provider);
+    this.logger.log(`Registered embedding provider: ${provider.name}`);
+  }
+
+  /** Installs the hook that enforces quotas and records usage per user. */
+  setUsageTracker(tracker: LLMUsageTracker | undefined) {
+    this.usageTracker = tracker;
+  }
+
+  /** Installs the template store `generateFromTemplate` reads from. */
+  setPromptSource(source: LLMPromptSource | undefined) {
+    this.promptSource = source;
+  }
+
+  /** Enables completion caching; pass undefined to turn it off. */
+  setResponseCache(cache: ResponseCache | undefined) {
+    this.responseCache = cache;
+  }
+
+  onModuleInit() {
+    if (this.healthCheckInterval > 0) {
+      void this.refreshHealth();
+      this.healthCheckTimer = setInterval(
+        () => void this.refreshHealth(),
+        this.healthCheckInterval
+      );
+      // Health checks alone should not keep the process alive
+      this.healthCheckTimer.unref();
+    }
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.healthCheckTimer);
+    await this.responseCache?.close();
   }
 
   async generateCompletion(
     messages: LLMMessage[],
-    options: LLMProviderOptions & { provider?: string } = {}
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    this.validateMessages(messages);
+    const { options: routed, route } = this.routeRequest(options);
+    this.checkCapabilities(messages, routed, false);
+    await this.checkQuota(options.context);
+    const { messages: fitted } = await this.fitContext(messages, routed);
+
+    // Keyed by the routed provider and model, so an alias shares entries
+    // with requests naming its target directly, not across its targets
+    const cache = this.responseCache?.shouldCache(options)
+      ? this.responseCache
+      : undefined;
+    const cacheKey = cache?.buildKey(
+      fitted,
+      routed.provider || this.defaultProvider,
+      routed
+    );
+    const cached = cacheKey ? await cache?.get(cacheKey) : undefined;
+    if (cached) {
+      // Nothing was spent, so the hit is neither charged nor recorded
+      return { ...cached, estimatedCost: 0, cached: true };
+    }
+
+    const result = await this.executeWithContextFallback(
+      this.withDefaultTimeout(routed),
+      route,
+      (attempt, route) =>
+        this.executeWithFallback(
+          attempt,
+          (provider, model) =>
+            provider.generateCompletion(fitted, { ...attempt, model }),
+          this.completionRegistry(),
+          route
+        )
+    );
+    const response: LLMResponse = {
+      ...result,
+      estimatedCost: this.pricing.estimateCost(
+        result.provider,
+        result.model,
+        result.usage,
+        this.providerType(result.provider)
+      ),
+    };
+
+    await this.recordUsage(options.context, {
+      operation: 'completion',
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      estimatedCost: response.estimatedCost,
+    });
+    if (cacheKey) {
+      await cache?.set(cacheKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * Streams a completion as incremental deltas. Retry and fallback apply
+   * until the first chunk arrives; once output has been sent to the caller a
+   * failure is propagated as-is, since switching providers mid-answer would
+   * produce a garbled response.
+   */
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    this.validateMessages(messages);
+    const { options: routed, route } = this.routeRequest(options);
+    this.checkCapabilities(messages, routed, true);
+    await this.checkQuota(options.context);
+    const { messages: fitted } = await this.fitContext(messages, routed);
+
+    const { iterator, first } = await this.executeWithContextFallback(
+      this.withDefaultTimeout(routed),
+      route,
+      (attempt, route) =>
+        this.executeWithFallback(
+          attempt,
+          async (provider, model) => {
+            const iterator = provider
+              .streamCompletion(fitted, { ...attempt, model })
+              [Symbol.asyncIterator]();
+            const first = await iterator.next();
+            return { iterator, first };
+          },
+          this.completionRegistry(),
+          route
+        )
+    );
+
+    try {
+      let chunk: IteratorResult<LLMStreamChunk> = first;
+      while (!chunk.done) {
+        // Usage is only known once the final chunk arrives, so a stream the
+        // consumer abandons early goes unrecorded
+        if (chunk.value.done) {
+          const { provider, model, usage } = chunk.value;
+          const estimatedCost = this.pricing.estimateCost(
+            provider,
+            model,
+            usage,
+            this.providerType(provider)
+          );
+          await this.recordUsage(options.context, {
+            operation: 'stream',
+            provider,
+            model,
+            usage,
+            estimatedCost,
+          });
+          yield { ...chunk.value, estimatedCost };
+        } else {
+          yield chunk.value;
+        }
+        chunk = await iterator.next();
+      }
+    } finally {
+      // Closes the provider stream when the consumer stops reading early
+      await iterator.return?.();
+    }
+  }
+
+  /**
+   * Applies the request's context window strategy: when the estimated prompt
+   * exceeds the budget, older turns are dropped or summarized while leading
+   * system messages and the latest turns are kept. A failed summary falls
+   * back to truncation. Called by `generateCompletion` and
+   * `streamCompletion`; the budget is taken from the requested (or primary)
+   * provider, not from fallbacks.
+   */
+  async fitContext(
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {}
+  ): Promise<ContextFitResult> {
+    const settings: ContextWindowOptions = {
+      ...this.contextWindowDefaults,
+      ...(typeof options.contextWindow === 'string'
+        ? { strategy: options.contextWindow }
+        : options.contextWindow),
+    };
+    const strategy = settings.strategy ?? 'none';
+    const provider = options.provider || this.defaultProvider;
+    const contextWindow = provider
+      ? this.contextWindows.getContextWindow(
+          provider,
+          options.model,
+          this.providerType(provider)
+        )
+      : undefined;
+    const budget =
+      settings.maxPromptTokens ??
+      (contextWindow !== undefined
+        ? contextWindow - (options.maxTokens ?? DEFAULT_OUTPUT_RESERVE)
+        : undefined);
+
+    if (strategy === 'none' || budget === undefined) {
+      return {
+        messages,
+        estimatedTokens: estimatePromptTokens(messages),
+        droppedMessages: 0,
+        summarized: false,
+      };
+    }
+
+    const fit = (strategy: ContextStrategy) =>
+      fitContextWindow(messages, {
+        budget,
+        strategy,
+        keepRecent: settings.keepRecent,
+        summarize: (older) =>
+          this.summarizeMessages(older, {
+            ...options,
+            provider: settings.summaryModel?.provider || provider,
+            model: settings.summaryModel?.model,
+          }),
+      });
+
+    let result: ContextFitResult;
+    try {
+      result = await fit(strategy);
+    } catch (error) {
+      if (strategy !== 'summarize' || options.signal?.aborted) {
+        throw error;
+      }
+      this.logger.warn(
+        'Failed to summarize context, truncating instead',
+        error
+      );
+      result = await fit('truncate');
+    }
+
+    if (result.droppedMessages) {
+      this.logger.debug(
+        `${result.summarized ? 'Summarized' : 'Dropped'} ${
+          result.droppedMessages
+        } messages to fit ${budget} tokens`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Looks up a prompt template (the published version unless `version` is
+   * given) and substitutes its variables.
+   */
+  async renderTemplate(
+    name: string,
+    variables: Record<string, unknown> = {},
+    version?: number
+  ): Promise<LLMRenderedPrompt> {
+    if (!this.promptSource) {
+      throw new PromptTemplateError(
+        'No prompt template source configured; import PromptModule',
+        name
+      );
+    }
+
+    const template = await this.promptSource.getTemplate(name, version);
+    if (!template) {
+      throw new PromptTemplateError(
+        version === undefined
+          ? `Prompt template ${name} has no published version`
+          : `Prompt template ${name} v${version} not found`,
+        name
+      );
+    }
+
+    return {
+      messages: renderPromptTemplate(template, variables),
+      prompt: { name: template.name, version: template.version },
+      options: template.options || {},
+    };
+  }
+
+  /**
+   * Renders a prompt template and completes it. Options pinned by the
+   * template apply unless the call overrides them; the response and the
+   * usage record name the template version that produced them.
+   */
+  async generateFromTemplate(
+    name: string,
+    variables: Record<string, unknown> = {},
+    options: LLMTemplateRequestOptions = {}
   ): Promise<LLMResponse> {
-    const providerName = options.provider || this.defaultProvider;
+    const { version, messages = [], ...requestOptions } = options;
+    const rendered = await this.renderTemplate(name, variables, version);
+
+    const response = await this.generateCompletion(
+      [...rendered.messages, ...messages],
+      this.templateRequestOptions(rendered, requestOptions)
+    );
+    return { ...response, prompt: rendered.prompt };
+  }
+
+  /** Streaming counterpart of `generateFromTemplate`. */
+  async *streamFromTemplate(
+    name: string,
+    variables: Record<string, unknown> = {},
+    options: LLMTemplateRequestOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const { version, messages = [], ...requestOptions } = options;
+    const rendered = await this.renderTemplate(name, variables, version);
+
+    for await (const chunk of this.streamCompletion(
+      [...rendered.messages, ...messages],
+      this.templateRequestOptions(rendered, requestOptions)
+    )) {
+      yield chunk.done ? { ...chunk, prompt: rendered.prompt } : chunk;
+    }
+  }
+
+  /**
+   * Request options over the ones the template version pins. Keys a caller
+   * passes as undefined, e.g. an unset `provider`, keep the pinned value.
+   */
+  private templateRequestOptions(
+    rendered: LLMRenderedPrompt,
+    options: LLMRequestOptions
+  ): LLMRequestOptions {
+    const overrides = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    );
+    return {
+      ...rendered.options,
+      ...overrides,
+      context: { ...options.context, prompt: rendered.prompt },
+    };
+  }
+
+  /**
+   * Runs the call-execute-reply loop: tool calls requested by the model are
+   * dispatched to the matching handler and the results are sent back until
+   * the model answers without calling a tool. Handler failures are reported
+   * to the model as tool output so it can recover.
+   */
+  async runTools(
+    messages: LLMMessage[],
+    tools: LLMTool[],
+    options: LLMRequestOptions & {
+      maxIterations?: number;
+    } = {}
+  ): Promise<LLMToolRunResult> {
+    const { maxIterations = 5, ...completionOptions } = options;
+    const handlers = new Map(
+      tools.map((tool) => [tool.definition.name, tool.handler])
+    );
+    const transcript = [...messages];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let estimatedCost: number | undefined;
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const response = await this.generateCompletion(transcript, {
+        ...completionOptions,
+        tools: tools.map((tool) => tool.definition),
+      });
+
+      usage.promptTokens += response.usage?.promptTokens || 0;
+      usage.completionTokens += response.usage?.completionTokens || 0;
+      usage.totalTokens += response.usage?.totalTokens || 0;
+      if (response.estimatedCost !== undefined) {
+        estimatedCost = (estimatedCost || 0) + response.estimatedCost;
+      }
+
+      if (!response.toolCalls?.length) {
+        return {
+          response: { ...response, usage, estimatedCost },
+          messages: [
+            ...transcript,
+            { role: 'assistant', content: response.content },
+          ],
+          iterations: iteration,
+        };
+      }
+
+      transcript.push({
+        role: 'assistant',
+        content: response.content,
+        toolCalls: response.toolCalls,
+      });
+
+      for (const call of response.toolCalls) {
+        transcript.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: await this.invokeTool(handlers.get(call.name), call),
+        });
+      }
+    }
+
+    throw new Error(
+      `Tool loop did not finish within ${maxIterations} iterations`
+    );
+  }
+
+  /**
+   * Asks the model for a JSON object using the provider's native JSON mode
+   * and validates it against a JSON Schema or a class-validator DTO. Invalid
+   * output is sent back with the validation errors so the model can correct
+   * itself; after `maxRetries` re-prompts a StructuredOutputError is thrown.
+   *
+   * DTO classes carry no JSON Schema, so the prompt should describe the
+   * expected shape (OpenAI also requires the word "JSON" in the messages).
+   */
+  async generateObject<T = Record<string, unknown>>(
+    messages: LLMMessage[],
+    schema: LLMObjectSchema<T>,
+    options: LLMRequestOptions & {
+      maxRetries?: number;
+      schemaName?: string;
+    } = {}
+  ): Promise<LLMObjectResult<T>> {
+    const { maxRetries = 2, schemaName, ...completionOptions } = options;
+    const responseFormat: LLMResponseFormat =
+      typeof schema === 'function'
+        ? { type: 'json', name: schemaName || schema.name }
+        : { type: 'json', name: schemaName, schema };
+    const transcript = [...messages];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let estimatedCost: number | undefined;
+    const attempts = maxRetries + 1;
+    let errors: string[] = [];
+    let content = '';
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const response = await this.generateCompletion(transcript, {
+        ...completionOptions,
+        responseFormat,
+      });
+
+      usage.promptTokens += response.usage?.promptTokens || 0;
+      usage.completionTokens += response.usage?.completionTokens || 0;
+      usage.totalTokens += response.usage?.totalTokens || 0;
+      if (response.estimatedCost !== undefined) {
+        estimatedCost = (estimatedCost || 0) + response.estimatedCost;
+      }
+      content = response.content;
+
+      const result = await this.parseObject<T>(content, schema);
+      if ('object' in result) {
+        return {
+          object: result.object,
+          response: { ...response, usage, estimatedCost },
+          attempts: attempt,
+        };
+      }
+
+      errors = result.errors;
+      this.logger.warn(
+        `Structured output attempt ${attempt}/${attempts} was invalid: ${errors.join(
+          '; '
+        )}`
+      );
+
+      transcript.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous response was invalid:\n- ${errors.join(
+            '\n- '
+          )}\nReply with only the corrected JSON.`,
+        }
+      );
+    }
+
+    throw new StructuredOutputError(
+      `Model output did not match the schema after ${attempts} attempts`,
+      errors,
+      content,
+      attempts
+    );
+  }
+
+  /**
+   * Embeds the texts in batches of `embeddingBatchSize`. Retry and fallback
+   * apply to the first batch; the remaining batches stay on the provider that
+   * served it, since vectors from different models are not comparable.
+   */
+  async embed(
+    texts: string[],
+    options: EmbeddingOptions & {
+      provider?: string;
+      context?: LLMRequestContext;
+    } = {}
+  ): Promise<EmbeddingResponse> {
+    if (!texts.length) {
+      throw new Error('At least one text is required for embedding');
+    }
+    const embeddingProvider =
+      options.provider || this.defaultEmbeddingProvider || this.defaultProvider;
+    if (embeddingProvider && options.model) {
+      this.assertCapable(embeddingProvider, options.model, [
+        ['embeddings', true, 'embeddings'],
+      ]);
+    }
+    await this.checkQuota(options.context);
+
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += this.embeddingBatchSize) {
+      batches.push(texts.slice(i, i + this.embeddingBatchSize));
+    }
+
+    const embedOptions = this.withDefaultTimeout(options);
+    const first = await this.executeWithFallback(
+      embedOptions,
+      (provider) => provider.embed(batches[0], embedOptions),
+      {
+        providers: this.embeddingProviders,
+        defaultProvider: this.defaultEmbeddingProvider || this.defaultProvider,
+      }
+    );
+
+    const provider = this.embeddingProviders.get(first.provider);
+    const embeddings = [...first.embeddings];
+    const usage = first.usage ? { ...first.usage } : undefined;
+
+    for (const batch of batches.slice(1)) {
+      const result = await this.executeWithRetry(
+        provider as EmbeddingProvider,
+        (pinned) =>
+          pinned.embed(batch, { ...embedOptions, model: first.model }),
+        embedOptions
+      );
+
+      embeddings.push(...result.embeddings);
+      if (usage && result.usage) {
+        usage.promptTokens += result.usage.promptTokens;
+        usage.totalTokens += result.usage.totalTokens;
+      }
+    }
+
+    const estimatedCost = this.pricing.estimateCost(
+      first.provider,
+      first.model,
+      usage,
+      this.providerType(first.provider)
+    );
+
+    await this.recordUsage(options.context, {
+      operation: 'embedding',
+      provider: first.provider,
+      model: first.model,
+      usage,
+      estimatedCost,
+    });
+    return { ...first, embeddings, usage, estimatedCost };
+  }
+
+  private async parseObject<T>(
+    content: string,
+    schema: LLMObjectSchema<T>
+  ): Promise<{ object: T } | { errors: string[] }> {
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      return {
+        errors: [
+          `Invalid JSON: ${error instanceof Error ? error.message : error}`,
+        ],
+      };
+    }
+
+    if (typeof schema !== 'function') {
+      const validateSchema = this.ajv.compile(schema);
+      if (validateSchema(value)) {
+        return { object: value as T };
+      }
+      return {
+        errors: (validateSchema.errors || []).map(
+          (error) => `${error.instancePath || '/'} ${error.message}`
+        ),
+      };
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { errors: ['Expected a JSON object'] };
+    }
+
+    const instance = plainToInstance(schema, value);
+    const validationErrors = await validate(instance as object);
+    if (!validationErrors.length) {
+      return { object: instance };
+    }
+    return { errors: this.flattenValidationErrors(validationErrors) };
+  }
+
+  private flattenValidationErrors(
+    validationErrors: ValidationError[],
+    parentPath = ''
+  ): string[] {
+    return validationErrors.flatMap((error) => {
+      const path = parentPath
+        ? `${parentPath}.${error.property}`
+        : error.property;
+      return [
+        ...Object.values(error.constraints || {}).map(
+          (message) => `${path}: ${message}`
+        ),
+        ...this.flattenValidationErrors(error.children || [], path),
+      ];
+    });
+  }
+
+  private async invokeTool(
+    handler: LLMToolHandler | undefined,
+    call: LLMToolCall
+  ): Promise<string> {
+    if (!handler) {
+      return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+    }
+
+    try {
+      const result = await handler(call.arguments, call);
+      return typeof result === 'string' ? result : JSON.stringify(result);
+    } catch (error) {
+      this.logger.warn(`Tool ${call.name} failed`, error);
+      return JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async summarizeMessages(
+    messages: LLMMessage[],
+    options: LLMRequestOptions
+  ): Promise<string> {
+    const provider = options.provider;
+    const model =
+      options.model ||
+      (provider ? DEFAULT_SUMMARY_MODELS[provider] : undefined);
+    const contextWindow = provider
+      ? this.contextWindows.getContextWindow(
+          provider,
+          model,
+          this.providerType(provider)
+        )
+      : undefined;
+    // Turns too old to fit the summary model are left out as well
+    const { messages: included } = await fitContextWindow(messages, {
+      budget: (contextWindow ?? Infinity) - SUMMARY_MAX_TOKENS - 100,
+      strategy: 'truncate',
+      keepRecent: 1,
+    });
+    const transcript = included
+      .map((message) => `${message.role}: ${getMessageText(message.content)}`)
+      .join('\n\n');
+
+    // Temperature 0 lets the response cache reuse summaries of the same turns
+    const response = await this.generateCompletion(
+      [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+      {
+        provider,
+        model,
+        temperature: 0,
+        maxTokens: SUMMARY_MAX_TOKENS,
+        context: options.context,
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        contextWindow: 'none',
+      }
+    );
+    return response.content;
+  }
+
+  private async checkQuota(context?: LLMRequestContext): Promise<void> {
+    if (this.usageTracker && context?.userId) {
+      await this.usageTracker.checkQuota(context);
+    }
+  }
+
+  private async recordUsage(
+    context: LLMRequestContext | undefined,
+    event: LLMUsageEvent
+  ): Promise<void> {
+    if (!this.usageTracker || !context?.userId) {
+      return;
+    }
+
+    try {
+      await this.usageTracker.record(context, event);
+    } catch (error) {
+      // The caller already paid for the answer; losing a ledger row is
+      // better than failing the request
+      this.logger.error('Failed to record LLM usage', error);
+    }
+  }
+
+  private validateMessages(messages: LLMMessage[]) {
+    const misplaced = messages.find(
+      (msg) => msg.role !== 'user' && getMessageImages(msg.content).length
+    );
+    if (misplaced) {
+      throw new Error(
+        `Image parts are only supported in user messages, not ${misplaced.role} messages`
+      );
+    }
+  }
+
+  /**
+   * Resolves a model alias in `model` to its first target. The remaining
+   * targets replace the fallback providers for this request, though not for
+   * a retry on `contextFallbackModels`.
+   */
+  private routeRequest(options: LLMRequestOptions): {
+    options: LLMRequestOptions;
+    route?: LLMRouteTarget[];
+  } {
+    if (!this.router.has(options.model)) {
+      return { options };
+    }
+
+    const route = this.router.resolve(options.model, {
+      provider: options.provider,
+      policy: options.routing,
+    });
+    return {
+      options: {
+        ...options,
+        provider: route[0].provider,
+        model: route[0].model,
+      },
+      route,
+    };
+  }
+
+  /**
+   * Rejects a request the chosen model is known not to handle before it is
+   * sent. Capabilities the catalog does not know are left to the provider;
+   * fallback providers are not checked.
+   */
+  private checkCapabilities(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    stream: boolean
+  ) {
+    const name = options.provider || this.defaultProvider;
+    const model = options.model || this.providers.get(name ?? '')?.defaultModel;
+    if (!name || !model) {
+      return;
+    }
+
+    this.assertCapable(name, model, [
+      ['chat', true, 'chat completions'],
+      ['vision', hasImages(messages), 'image input'],
+      ['tools', !!options.tools?.length, 'tool calling'],
+      ['jsonMode', !!options.responseFormat, 'JSON output'],
+      ['streaming', stream, 'streaming'],
+    ]);
+  }
+
+  private assertCapable(
+    providerName: string,
+    model: string,
+    required: [keyof LLMModelCapabilities, boolean, string][]
+  ) {
+    const provider = this.providers.get(providerName) ?? { name: providerName };
+    const { capabilities } = this.catalog.describe(provider, model);
+    const missing = required.find(
+      ([flag, needed]) => needed && capabilities[flag] === false
+    );
+    if (missing) {
+      throw new ModelCapabilityError(providerName, model, missing[2]);
+    }
+  }
+
+  private completionRegistry(): ProviderRegistry<LLMProvider> {
+    return { providers: this.providers, defaultProvider: this.defaultProvider };
+  }
+
+  private async executeWithFallback<
+    T,
+    P extends Pick<LLMProvider, 'name' | 'isAvailable'>
+  >(
+    options: { provider?: string; model?: string; signal?: AbortSignal },
+    operation: (provider: P, model: string | undefined) => Promise<T>,
+    registry: ProviderRegistry<P>,
+    route?: LLMRouteTarget[]
+  ): Promise<T> {
+    const { providers } = registry;
+    const providerName = options.provider || registry.defaultProvider;
     
     if (!providerName) {
       throw new Error('No provider specified and no default provider configured');
     }
 
-    const primaryProvider = this.providers.get(providerName);
+    const primaryProvider = providers.get(providerName);
     if (!primaryProvider) {
       throw new Error(`Provider ${providerName} not found`);
     }
 
     // Try primary provider with retry logic
     try {
-      return await this.executeWithRetry(primaryProvider, messages, options);
+      if (!this.isRoutable(providerName)) {
+        throw new ProviderUnavailableError(
+          `Provider ${providerName} is not available`,
+          providerName
+        );
+      }
+      return await this.executeWithRetry(
+        primaryProvider,
+        (provider) => operation(provider, options.model),
+        options
+      );
     } catch (error) {
+      // The caller gave up, so there is nobody left to fall back for; a
+      // capability or invalid-request error means the request itself needs
+      // changing (context length is handled by executeWithContextFallback)
+      if (
+        options.signal?.aborted ||
+        error instanceof ModelCapabilityError ||
+        error instanceof InvalidRequestError
+      ) {
+        throw error;
+      }
+
       this.logger.error(
         `Failed to generate completion with ${providerName}`,
         error
       );
 
-      // Try fallback providers
-      for (const fallbackName of this.fallbackProviders) {
-        if (fallbackName === providerName) continue;
+      // Try fallback providers, or the remaining targets of a model alias,
+      // skipping open circuits and failed health checks
+      const fallbacks = route
+        ? route.slice(1)
+        : this.fallbackProviders.map((provider) => ({
+            provider,
+            model: options.model,
+          }));
+      for (const { provider: fallbackName, model } of fallbacks) {
+        if (fallbackName === providerName && model === options.model) continue;
 
-        const fallbackProvider = this.providers.get(fallbackName);
-        if (!fallbackProvider) continue;
+        const fallbackProvider = providers.get(fallbackName);
+        if (!fallbackProvider || !this.isRoutable(fallbackName)) continue;
 
+        const target =
+          route && model ? `${fallbackName}/${model}` : fallbackName;
         try {
-          const isAvailable = await fallbackProvider.isAvailable();
-          if (!isAvailable) continue;
-
-          this.logger.log(`Falling back to provider: ${fallbackName}`);
+          this.logger.log(`Falling back to provider: ${target}`);
           return await this.executeWithRetry(
             fallbackProvider,
-            messages,
+            (provider) => operation(provider, model),
             options
           );
         } catch (fallbackError) {
+          if (options.signal?.aborted) {
+            throw fallbackError;
+          }
+
           this.logger.error(
-            `Fallback provider ${fallbackName} also failed`,
+            `Fallback provider ${target} also failed`,
             fallbackError
           );
         }
@@ -95,29 +1187,62 @@ export class LLMService {
     }
   }
 
-  private async executeWithRetry(
-    provider: LLMProvider,
-    messages: LLMMessage[],
-    options: LLMProviderOptions
-  ): Promise<LLMResponse> {
-    let lastError: any;
+  private async executeWithRetry<
+    T,
+    P extends Pick<LLMProvider, 'name' | 'isAvailable'>
+  >(
+    provider: P,
+    operation: (provider: P) => Promise<T>,
+    options: { signal?: AbortSignal }
+  ): Promise<T> {
+    let lastError: unknown;
+    const circuit = this.getCircuit(provider.name);
 
     for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+      // Stop retrying as soon as the failures so far have opened the circuit
+      if (!circuit.tryAcquire()) {
+        throw (
+          lastError ||
+          new ProviderUnavailableError(
+            `Circuit for provider ${provider.name} is open`,
+            provider.name
+          )
+        );
+      }
+
+      const startedAt = Date.now();
       try {
-        const isAvailable = await provider.isAvailable();
-        if (!isAvailable) {
-          throw new Error(`Provider ${provider.name} is not available`);
+        const result = await operation(provider);
+        circuit.recordSuccess(Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        const cancelled =
+          options.signal?.aborted || error instanceof ModelCapabilityError;
+        // A cancelled or rejected request says nothing about the provider's
+        // health
+        if (cancelled || error instanceof InvalidRequestError) {
+          circuit.release();
+        } else {
+          circuit.recordFailure(Date.now() - startedAt);
+        }
+        if (cancelled) {
+          throw error;
+        }
+        if (error instanceof LLMProviderError && !error.retryable) {
+          throw error;
         }
 
-        return await provider.generateCompletion(messages, options);
-      } catch (error) {
         lastError = error;
         this.logger.warn(
           `Attempt ${attempt}/${this.retryAttempts} failed for provider ${provider.name}`
         );
 
         if (attempt < this.retryAttempts) {
-          await this.delay(this.retryDelay * attempt);
+          const delay = this.getRetryDelay(error, attempt);
+          if (delay === undefined) {
+            throw error;
+          }
+          await this.delay(delay);
         }
       }
     }
@@ -125,21 +1250,187 @@ export class LLMService {
     throw lastError;
   }
 
+  private withDefaultTimeout<T extends { timeoutMs?: number }>(options: T): T {
+    return options.timeoutMs === undefined && this.timeoutMs
+      ? { ...options, timeoutMs: this.timeoutMs }
+      : options;
+  }
+
+  /**
+   * Honors a rate limit's Retry-After, otherwise backs off exponentially with
+   * jitter so concurrent callers do not retry in lockstep. Returns undefined
+   * when the required wait exceeds `maxRetryDelay`.
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | undefined {
+    if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= this.maxRetryDelay
+        ? error.retryAfterMs
+        : undefined;
+    }
+
+    const backoff = Math.min(
+      this.retryDelay * 2 ** (attempt - 1),
+      this.maxRetryDelay
+    );
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  /**
+   * Runs the operation once more on a larger-context model when the prompt
+   * does not fit the one requested.
+   */
+  private async executeWithContextFallback<T>(
+    options: LLMRequestOptions,
+    route: LLMRouteTarget[] | undefined,
+    operation: (
+      options: LLMRequestOptions,
+      route?: LLMRouteTarget[]
+    ) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await operation(options, route);
+    } catch (error) {
+      if (!(error instanceof ContextLengthError)) {
+        throw error;
+      }
+
+      const target = this.contextFallbackModels.find(
+        ({ provider, model }) =>
+          this.providers.has(provider) &&
+          (provider !== error.provider || model !== options.model)
+      );
+      if (!target) {
+        throw error;
+      }
+
+      this.logger.warn(
+        `Context length exceeded on ${error.provider}, retrying with ${target.provider}/${target.model}`
+      );
+      return operation({ ...options, ...target });
+    }
+  }
+
+  private getCircuit(name: string): CircuitBreaker {
+    let circuit = this.circuits.get(name);
+    if (!circuit) {
+      circuit = new CircuitBreaker(this.circuitOptions);
+      this.circuits.set(name, circuit);
+    }
+    return circuit;
+  }
+
+  /** Providers not yet health-checked are assumed to be up. */
+  private isRoutable(name: string): boolean {
+    return (
+      this.health.get(name)?.available !== false &&
+      this.getCircuit(name).canRequest()
+    );
+  }
+
+  private async refreshHealth(names?: string[]): Promise<void> {
+    const providers = new Map<string, Pick<LLMProvider, 'isAvailable'>>([
+      ...this.embeddingProviders,
+      ...this.providers,
+    ]);
+
+    await Promise.all(
+      (names || Array.from(providers.keys())).map(async (name) => {
+        const provider = providers.get(name);
+        if (!provider) return;
+
+        let available: boolean;
+        try {
+          available = await provider.isAvailable();
+        } catch {
+          available = false;
+        }
+
+        if (this.health.get(name)?.available !== available) {
+          this.logger.log(
+            `Provider ${name} is ${available ? 'available' : 'unavailable'}`
+          );
+        }
+        this.health.set(name, { available, checkedAt: new Date() });
+      })
+    );
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  /** Model aliases with their targets and effective routing policies. */
+  getModelAliases(): Record<string, LLMResolvedModelAlias> {
+    return this.router.getAliases();
+  }
+
+  /** Returns the effective price table (defaults merged with overrides). */
+  getPricing(): PricingTable {
+    return this.pricing.getTable();
+  }
+
+  /** Hit/miss counters of the response cache, or undefined when disabled. */
+  getCacheStats(): LLMCacheStats | undefined {
+    return this.responseCache?.getStats();
+  }
+
   getAvailableProviders(): string[] {
     return Array.from(this.providers.keys());
   }
 
-  async checkProviderAvailability(): Promise<Record<string, boolean>> {
-    const availability: Record<string, boolean> = {};
+  /**
+   * Models of every registered provider, or of one, with their capabilities.
+   * Provider listings are cached; `refresh` fetches them again.
+   */
+  async getModelCatalog(
+    options: { provider?: string; refresh?: boolean } = {}
+  ): Promise<LLMModelInfo[]> {
+    let providers = Array.from(this.providers.values());
+    if (options.provider) {
+      const provider = this.providers.get(options.provider);
+      if (!provider) {
+        throw new Error(`Provider ${options.provider} not found`);
+      }
+      providers = [provider];
+    }
+
+    const lists = await Promise.all(
+      providers.map((provider) => this.catalog.list(provider, options.refresh))
+    );
+    return lists.flat();
+  }
+
+  /**
+   * Capabilities of a model (the provider's default model when omitted) as
+   * far as known without contacting the provider.
+   */
+  describeModel(provider: string, model?: string): LLMModelInfo | undefined {
+    const registered = this.providers.get(provider);
+    const id = model || registered?.defaultModel;
+    return registered && id ? this.catalog.describe(registered, id) : undefined;
+  }
+
+  /**
+   * Health and circuit state per provider, from the background health check.
+   * Providers that have not been checked yet are checked now.
+   */
+  async checkProviderAvailability(): Promise<Record<string, ProviderStatus>> {
+    const names = Array.from(
+      new Set([...this.providers.keys(), ...this.embeddingProviders.keys()])
+    );
+    await this.refreshHealth(names.filter((name) => !this.health.has(name)));
 
-    for (const [name, provider] of this.providers) {
-      availability[name] = await provider.isAvailable();
+    const statuses: Record<string, ProviderStatus> = {};
+    for (const name of names) {
+      const health = this.health.get(name);
+      const circuit = this.getCircuit(name);
+      statuses[name] = {
+        available: !!health?.available && circuit.canRequest(),
+        circuit: circuit.getStatus(),
+        lastCheckedAt: health?.checkedAt,
+      };
     }
 
-    return availability;
+    return statuses;
   }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { LLMUsage } from '../interfaces/llm-provider.interface';
+import { matchModel } from '../utils/model-match';
+
+/** USD per one million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Prices keyed by provider, then by model name or model name prefix */
+export type PricingTable = Record<string, Record<string, ModelPrice>>;
+
+// Public list prices at the time of writing; override through the `pricing`
+// option when they change. '*' matches any model of the provider.
+export const DEFAULT_PRICING: PricingTable = {
+  openai: {
+    'gpt-5': { input: 1.25, output: 10 },
+    'gpt-5-mini': { input: 0.25, output: 2 },
+    'gpt-5-nano': { input: 0.05, output: 0.4 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    o1: { input: 15, output: 60 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    o3: { input: 2, output: 8 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'text-embedding-ada-002': { input: 0.1, output: 0 },
+  },
+  claude: {
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+  },
+  // Local models only cost hardware
+  ollama: {
+    '*': { input: 0, output: 0 },
+  },
+};
+
+/**
+ * Looks up token prices per provider and model; the longest matching model
+ * prefix wins.
+ */
+export class PricingRegistry {
+  private readonly table: PricingTable = {};
+
+  constructor(pricing: PricingTable = DEFAULT_PRICING) {
+    this.merge(pricing);
+  }
+
+  merge(pricing: PricingTable) {
+    for (const [provider, models] of Object.entries(pricing)) {
+      this.table[provider] = { ...this.table[provider], ...models };
+    }
+  }
+
+  /** `type` is consulted when the provider instance has no prices of its own */
+  getPrice(
+    provider: string,
+    model?: string,
+    type?: string
+  ): ModelPrice | undefined {
+    return matchModel(
+      this.table[provider] ?? (type ? this.table[type] : undefined),
+      model
+    );
+  }
+
+  /** Cost in USD, or undefined when the model has no known price. */
+  estimateCost(
+    provider: string,
+    model: string | undefined,
+    usage: LLMUsage | undefined,
+    type?: string
+  ): number | undefined {
+    const price = this.getPrice(provider, model, type);
+    if (!price || !usage) {
+      return undefined;
+    }
+
+    const cost =
+      (usage.promptTokens * price.input +
+        usage.completionTokens * price.output) /
+      1_000_000;
+    // Keep the precision of the ledger column
+    return Math.round(cost * 1e6) / 1e6;
+  }
+
+  getTable(): PricingTable {
+    return this.table;
+  }
+}
@@ -0,0 +1,101 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class PromptTemplateMessageDto {
+  @IsIn(['system', 'user', 'assistant'])
+  role!: 'system' | 'user' | 'assistant';
+
+  @IsString()
+  content!: string;
+}
+
+export class PromptVariableDto {
+  @Matches(/^[A-Za-z_][A-Za-z0-9_]*$/)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  default?: string;
+}
+
+export class PromptTemplateOptionsDto {
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @IsOptional()
+  @IsNumber()
+  temperature?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxTokens?: number;
+
+  @IsOptional()
+  @IsNumber()
+  topP?: number;
+}
+
+export class CreatePromptTemplateDto {
+  /** Lowercase identifier shared by all versions, e.g. `chat-assistant` */
+  @Matches(/^[a-z0-9][a-z0-9._-]*$/)
+  @MaxLength(100)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PromptTemplateMessageDto)
+  messages!: PromptTemplateMessageDto[];
+
+  /** Defaults to the placeholders used in `messages`, all required */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PromptVariableDto)
+  variables?: PromptVariableDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromptTemplateOptionsDto)
+  options?: PromptTemplateOptionsDto;
+
+  /** Publishes the new version right away */
+  @IsOptional()
+  @IsBoolean()
+  publish?: boolean;
+}
+
+export class RollbackPromptTemplateDto {
+  /** Version to restore; defaults to the one published before the current */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+}
@@ -0,0 +1,61 @@
+import {
+  Entity,
+  Column,
+  Index,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import {
+  LLMPromptTemplate,
+  PromptTemplateMessage,
+  PromptTemplateOptions,
+  PromptVariable,
+} from '../../interfaces/prompt-source.interface';
+
+export type PromptTemplateStatus = 'draft' | 'published' | 'archived';
+
+/**
+ * One immutable version of a named prompt. At most one version per name is
+ * published; publishing another archives it, and rolling back re-publishes
+ * an archived one.
+ */
+@Entity('llm_prompt_templates')
+@Index(['name', 'version'], { unique: true })
+@Index(['name'], { unique: true, where: "status = 'published'" })
+export class PromptTemplate implements LLMPromptTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  @Column({ type: 'integer' })
+  version!: number;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  @Column({ type: 'jsonb' })
+  messages!: PromptTemplateMessage[];
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  variables!: PromptVariable[];
+
+  @Column({ type: 'jsonb', nullable: true })
+  options?: PromptTemplateOptions | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'draft' })
+  status!: PromptTemplateStatus;
+
+  @Column('uuid', { nullable: true })
+  createdBy?: string | null;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt!: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  publishedAt?: Date | null;
+}
@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  CurrentUser,
+  JwtAuthGuard,
+  Roles,
+  RolesGuard,
+  UserRole,
+} from '@ai-solution/core/auth';
+import { PromptService, PromptTemplateSummary } from './prompt.service';
+import { PromptTemplate } from './entities/prompt-template.entity';
+import {
+  CreatePromptTemplateDto,
+  RollbackPromptTemplateDto,
+} from './dto/prompt-template.dto';
+
+/**
+ * Admin-only template management. Registered only when `PromptModule.forRoot`
+ * is called with `enableController: true`.
+ */
+@Controller('admin/prompts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class PromptController {
+  constructor(private readonly promptService: PromptService) {}
+
+  @Get()
+  async findAll(): Promise<PromptTemplateSummary[]> {
+    return this.promptService.findAll();
+  }
+
+  /** Creates the next version of `dto.name` */
+  @Post()
+  async create(
+    @Body() dto: CreatePromptTemplateDto,
+    @CurrentUser() user: { id: string }
+  ): Promise<PromptTemplate> {
+    const { publish, ...input } = dto;
+    return this.promptService.create(input, { publish, createdBy: user.id });
+  }
+
+  @Get(':name')
+  async findVersions(@Param('name') name: string): Promise<PromptTemplate[]> {
+    return this.promptService.findVersions(name);
+  }
+
+  @Get(':name/versions/:version')
+  async findVersion(
+    @Param('name') name: string,
+    @Param('version', ParseIntPipe) version: number
+  ): Promise<PromptTemplate> {
+    return this.promptService.findVersion(name, version);
+  }
+
+  @Post(':name/versions/:version/publish')
+  @HttpCode(200)
+  async publish(
+    @Param('name') name: string,
+    @Param('version', ParseIntPipe) version: number
+  ): Promise<PromptTemplate> {
+    return this.promptService.publish(name, version);
+  }
+
+  @Post(':name/rollback')
+  @HttpCode(200)
+  async rollback(
+    @Param('name') name: string,
+    @Body() dto: RollbackPromptTemplateDto
+  ): Promise<PromptTemplate> {
+    return this.promptService.rollback(name, dto.version);
+  }
+}
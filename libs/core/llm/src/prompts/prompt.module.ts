@@ -0,0 +1,73 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import {
+  PromptTemplateMessage,
+  PromptTemplateOptions,
+  PromptVariable,
+} from '../interfaces/prompt-source.interface';
+import { PromptTemplate } from './entities/prompt-template.entity';
+import { PromptService } from './prompt.service';
+import { PromptController } from './prompt.controller';
+
+export interface PromptTemplateInput {
+  name: string;
+  description?: string;
+  messages: PromptTemplateMessage[];
+  variables?: PromptVariable[];
+  options?: PromptTemplateOptions;
+}
+
+export interface PromptModuleOptions {
+  /** Created as published version 1 on startup when the name does not exist yet */
+  seed?: PromptTemplateInput[];
+  /** Seconds a published version is cached per instance (default 30) */
+  cacheTtl?: number;
+  /** Exposes the `/admin/prompts` routes to users with the admin role */
+  enableController?: boolean;
+}
+
+@Module({})
+export class PromptModule {
+  static forRoot(options?: PromptModuleOptions): DynamicModule {
+    return {
+      module: PromptModule,
+      controllers: options?.enableController ? [PromptController] : [],
+      imports: [TypeOrmModule.forFeature([PromptTemplate])],
+      providers: [
+        PromptService,
+        {
+          provide: 'PROMPT_OPTIONS',
+          useValue: options || {},
+        },
+      ],
+      exports: [PromptService],
+    };
+  }
+
+  static forRootAsync(options: {
+    imports?: any[];
+    useFactory?: (
+      ...args: any[]
+    ) => Promise<PromptModuleOptions> | PromptModuleOptions;
+    inject?: any[];
+    enableController?: boolean;
+  }): DynamicModule {
+    return {
+      module: PromptModule,
+      controllers: options.enableController ? [PromptController] : [],
+      imports: [
+        TypeOrmModule.forFeature([PromptTemplate]),
+        ...(options.imports || []),
+      ],
+      providers: [
+        PromptService,
+        {
+          provide: 'PROMPT_OPTIONS',
+          useFactory: options.useFactory || (() => ({})),
+          inject: options.inject || [],
+        },
+      ],
+      exports: [PromptService],
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { Repository } from 'typeorm';
+import { LLMService } from '../llm.service';
+import { PromptTemplate } from './entities/prompt-template.entity';
+import { PromptService } from './prompt.service';
+
+describe('PromptService', () => {
+  const seed = {
+    name: 'assistant',
+    messages: [{ role: 'system' as const, content: 'Hello {{user}}' }],
+  };
+  let insert: { values: jest.Mock; execute: jest.Mock };
+  let repository: { existsBy: jest.Mock; createQueryBuilder: jest.Mock };
+  let service: PromptService;
+
+  beforeEach(() => {
+    insert = {
+      values: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ raw: [{ id: 'template-1' }] }),
+    };
+    const builder = {
+      insert: () => builder,
+      into: () => builder,
+      values: insert.values,
+      orIgnore: () => builder,
+      execute: insert.execute,
+    };
+    repository = {
+      existsBy: jest.fn().mockResolvedValue(false),
+      createQueryBuilder: jest.fn(() => builder),
+    };
+    service = new PromptService(
+      repository as unknown as Repository<PromptTemplate>,
+      new LLMService(),
+      { seed: [seed] }
+    );
+  });
+
+  describe('onModuleInit', () => {
+    it('should insert a missing seed as published version 1', async () => {
+      await service.onModuleInit();
+
+      expect(insert.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'assistant',
+          version: 1,
+          status: 'published',
+          variables: [{ name: 'user' }],
+        })
+      );
+    });
+
+    it('should skip seeds that already exist', async () => {
+      repository.existsBy.mockResolvedValue(true);
+
+      await service.onModuleInit();
+
+      expect(insert.execute).not.toHaveBeenCalled();
+    });
+
+    it('should start when another instance inserted the seed first', async () => {
+      // ON CONFLICT DO NOTHING returns no row for the losing instance
+      insert.execute.mockResolvedValue({ raw: [] });
+
+      await expect(service.onModuleInit()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { LLMService } from '../llm.service';
+import {
+  LLMPromptSource,
+  PromptVariable,
+} from '../interfaces/prompt-source.interface';
+import { extractPromptVariables } from '../utils/prompt-template';
+import { PromptTemplate } from './entities/prompt-template.entity';
+import { PromptModuleOptions, PromptTemplateInput } from './prompt.module';
+
+export interface PromptTemplateSummary {
+  name: string;
+  description?: string | null;
+  latestVersion: number;
+  /** Null while every version is still a draft */
+  publishedVersion: number | null;
+}
+
+/**
+ * Database-backed prompt template store. Registers itself on LLMService as
+ * the template source; published versions are cached per instance for
+ * `cacheTtl` seconds, so other instances pick up a publish within that time.
+ */
+@Injectable()
+export class PromptService implements LLMPromptSource, OnModuleInit {
+  private readonly logger = new Logger(PromptService.name);
+  private readonly published = new Map<
+    string,
+    { template?: PromptTemplate; expiresAt: number }
+  >();
+
+  constructor(
+    @InjectRepository(PromptTemplate)
+    private promptRepository: Repository<PromptTemplate>,
+    private llmService: LLMService,
+    @Inject('PROMPT_OPTIONS')
+    private options: PromptModuleOptions
+  ) {}
+
+  async onModuleInit() {
+    this.llmService.setPromptSource(this);
+
+    for (const seed of this.options.seed || []) {
+      if (await this.seed(seed)) {
+        this.logger.log(`Seeded prompt template ${seed.name}`);
+      }
+    }
+  }
+
+  async getTemplate(
+    name: string,
+    version?: number
+  ): Promise<PromptTemplate | undefined> {
+    if (version !== undefined) {
+      return (
+        (await this.promptRepository.findOneBy({ name, version })) ?? undefined
+      );
+    }
+
+    const cached = this.published.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.template;
+    }
+
+    const template =
+      (await this.promptRepository.findOneBy({ name, status: 'published' })) ??
+      undefined;
+    this.published.set(name, {
+      template,
+      expiresAt: Date.now() + (this.options.cacheTtl ?? 30) * 1000,
+    });
+    return template;
+  }
+
+  /** Every template name with its latest and published version. */
+  async findAll(): Promise<PromptTemplateSummary[]> {
+    const versions = await this.promptRepository.find({
+      select: ['name', 'version', 'status', 'description'],
+      order: { name: 'ASC', version: 'DESC' },
+    });
+
+    const summaries = new Map<string, PromptTemplateSummary>();
+    for (const template of versions) {
+      const summary = summaries.get(template.name) ?? {
+        name: template.name,
+        description: template.description,
+        latestVersion: template.version,
+        publishedVersion: null,
+      };
+      if (template.status === 'published') {
+        summary.publishedVersion = template.version;
+      }
+      summaries.set(template.name, summary);
+    }
+    return [...summaries.values()];
+  }
+
+  /** All versions of a template, newest first. */
+  async findVersions(name: string): Promise<PromptTemplate[]> {
+    const versions = await this.promptRepository.find({
+      where: { name },
+      order: { version: 'DESC' },
+    });
+    if (!versions.length) {
+      throw new NotFoundException(`Prompt template ${name} not found`);
+    }
+    return versions;
+  }
+
+  async findVersion(name: string, version: number): Promise<PromptTemplate> {
+    const template = await this.promptRepository.findOneBy({ name, version });
+    if (!template) {
+      throw new NotFoundException(
+        `Prompt template ${name} v${version} not found`
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Stores the input as the next version of `name`, as a draft unless
+   * `publish` is set. Variables default to the placeholders in the messages.
+   */
+  async create(
+    input: PromptTemplateInput,
+    options: { publish?: boolean; createdBy?: string } = {}
+  ): Promise<PromptTemplate> {
+    const variables = this.resolveVariables(input);
+    const latest = await this.promptRepository.findOne({
+      where: { name: input.name },
+      order: { version: 'DESC' },
+    });
+
+    let template: PromptTemplate;
+    try {
+      template = await this.promptRepository.save(
+        this.promptRepository.create({
+          name: input.name,
+          version: (latest?.version ?? 0) + 1,
+          description: input.description,
+          messages: input.messages,
+          variables,
+          options: input.options,
+          status: 'draft',
+          createdBy: options.createdBy,
+        })
+      );
+    } catch (error) {
+      if (this.isUniqueViolation(error)) {
+        throw new ConflictException(
+          `Another version of ${input.name} was created concurrently, retry`
+        );
+      }
+      throw error;
+    }
+
+    return options.publish
+      ? this.publish(template.name, template.version)
+      : template;
+  }
+
+  /** Makes `version` the one `generateFromTemplate` uses. */
+  async publish(name: string, version: number): Promise<PromptTemplate> {
+    const template = await this.findVersion(name, version);
+    if (template.status === 'published') {
+      return template;
+    }
+
+    await this.promptRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(PromptTemplate);
+      await repository.update(
+        { name, status: 'published' },
+        { status: 'archived' }
+      );
+      await repository.update(
+        { id: template.id },
+        { status: 'published', publishedAt: new Date() }
+      );
+    });
+    this.published.delete(name);
+
+    return this.findVersion(name, version);
+  }
+
+  /**
+   * Re-publishes `version`, or by default the version that was published
+   * before the current one.
+   */
+  async rollback(name: string, version?: number): Promise<PromptTemplate> {
+    if (version !== undefined) {
+      return this.publish(name, version);
+    }
+
+    const previous = await this.promptRepository.findOne({
+      where: { name, status: 'archived' },
+      order: { publishedAt: 'DESC' },
+    });
+    if (!previous?.publishedAt) {
+      throw new ConflictException(
+        `Prompt template ${name} has no previously published version`
+      );
+    }
+    return this.publish(name, previous.version);
+  }
+
+  /**
+   * Inserts the input as published version 1 unless the name exists. Replicas
+   * starting together race on the insert, so conflicts are ignored rather
+   * than failing startup. Returns whether this instance inserted it.
+   */
+  private async seed(input: PromptTemplateInput): Promise<boolean> {
+    if (await this.promptRepository.existsBy({ name: input.name })) {
+      return false;
+    }
+
+    const result = await this.promptRepository
+      .createQueryBuilder()
+      .insert()
+      .into(PromptTemplate)
+      .values({
+        name: input.name,
+        version: 1,
+        description: input.description,
+        messages: input.messages,
+        variables: this.resolveVariables(input),
+        options: input.options,
+        status: 'published',
+        publishedAt: new Date(),
+      })
+      .orIgnore()
+      .execute();
+    return result.raw.length > 0;
+  }
+
+  /** Declared variables, or the placeholders found in the messages */
+  private resolveVariables(input: PromptTemplateInput): PromptVariable[] {
+    const placeholders = [
+      ...new Set(
+        input.messages.flatMap((message) =>
+          extractPromptVariables(message.content)
+        )
+      ),
+    ];
+    const variables = input.variables ?? placeholders.map((name) => ({ name }));
+    const undeclared = placeholders.filter(
+      (name) => !variables.some((variable) => variable.name === name)
+    );
+    if (undeclared.length) {
+      throw new BadRequestException(
+        `Undeclared template variables: ${undeclared.join(', ')}`
+      );
+    }
+    return variables;
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string })?.code === '23505'
+    );
+  }
+}
@@ -5,17 +5,53 @@ import {
   LLMMessage,
   LLMResponse,
   LLMProviderOptions,
+  LLMStreamChunk,
+  LLMToolChoice,
+  LLMResponseFormat,
 } from '../interfaces/llm-provider.interface';
+import { LLMProviderInstanceOptions } from '../interfaces/provider-config.interface';
+import { LLMDiscoveredModel } from '../interfaces/model-catalog.interface';
+import { ModelCapabilityError } from '../errors/model-capability.error';
+import {
+  ContentFilterError,
+  ProviderUnavailableError,
+  TimeoutError,
+} from '../errors/llm-provider.error';
+import { getMessageText, hasImages } from '../utils/message-content';
+import {
+  parseRetryAfter,
+  providerErrorFromStatus,
+} from '../utils/provider-errors';
+import { sdkRequestOptions } from '../utils/sdk-request-options';
+
+// Claude has no JSON mode, so structured output is requested by forcing a
+// call to this tool and reading back its input
+const RESPONSE_TOOL = 'json_response';
+
+// Models without vision support; every other Claude 3+ model accepts images
+const TEXT_ONLY_MODELS = /^(claude-2|claude-instant|claude-3-5-haiku)/;
 
 @Injectable()
 export class ClaudeProvider implements LLMProvider {
   private readonly logger = new Logger(ClaudeProvider.name);
   private client: Anthropic | null = null;
-  public readonly name = 'claude';
+  public readonly name: string;
+  public readonly type = 'claude';
+  public readonly defaultModel: string;
 
-  constructor(private readonly apiKey?: string) {
+  constructor(
+    private readonly apiKey?: string,
+    options: LLMProviderInstanceOptions = {}
+  ) {
+    this.name = options.name || 'claude';
+    this.defaultModel = options.defaultModel || 'claude-3-5-sonnet-latest';
     if (this.apiKey) {
-      this.client = new Anthropic({ apiKey: this.apiKey });
+      // LLMService owns the retry policy; SDK retries would multiply it
+      this.client = new Anthropic({
+        apiKey: this.apiKey,
+        baseURL: options.baseUrl,
+        maxRetries: 0,
+      });
     }
   }
 
@@ -23,6 +59,18 @@ export class ClaudeProvider implements LLMProvider {
     return !!this.client && !!this.apiKey;
   }
 
+  async listModels(): Promise<LLMDiscoveredModel[]> {
+    if (!this.client) {
+      throw new Error('Claude client is not initialized');
+    }
+
+    const models: LLMDiscoveredModel[] = [];
+    for await (const model of this.client.models.list()) {
+      models.push({ id: model.id });
+    }
+    return models;
+  }
+
   async generateCompletion(
     messages: LLMMessage[],
     options: LLMProviderOptions = {}
@@ -32,25 +80,52 @@ export class ClaudeProvider implements LLMProvider {
     }
 
     try {
-      // Separate system message from other messages
-      const systemMessage = messages.find((msg) => msg.role === 'system');
-      const userMessages = messages.filter((msg) => msg.role !== 'system');
-
-      const completion = await this.client.messages.create({
-        model: options.model || 'claude-3-5-sonnet-latest',
-        system: systemMessage?.content,
-        messages: userMessages.map((msg) => ({
-          role: msg.role === 'user' ? 'user' : 'assistant',
-          content: msg.content,
-        })),
-        temperature: options.temperature ?? 0.7,
-        max_tokens: options.maxTokens || 4096,
-        top_p: options.topP,
-      });
+      const completion = await this.client.messages.create(
+        {
+          ...this.buildRequest(messages, options),
+          stream: false,
+        },
+        sdkRequestOptions(options)
+      );
+
+      if (completion.stop_reason === 'refusal') {
+        throw new ContentFilterError(
+          'Claude declined to respond for safety reasons',
+          this.name
+        );
+      }
+
+      if (options.responseFormat) {
+        const output = completion.content.find(
+          (block) => block.type === 'tool_use' && block.name === RESPONSE_TOOL
+        );
+        return {
+          content:
+            output?.type === 'tool_use' ? JSON.stringify(output.input) : '',
+          usage: {
+            promptTokens: completion.usage.input_tokens,
+            completionTokens: completion.usage.output_tokens,
+            totalTokens:
+              completion.usage.input_tokens + completion.usage.output_tokens,
+          },
+          provider: this.name,
+          model: completion.model,
+        };
+      }
+
+      const toolCalls = completion.content
+        .filter((block) => block.type === 'tool_use')
+        .map((block) => ({
+          id: block.id,
+          name: block.name,
+          arguments: block.input as Record<string, unknown>,
+        }));
 
-      const content = completion.content[0];
       return {
-        content: content.type === 'text' ? content.text : '',
+        content: completion.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join(''),
+        toolCalls: toolCalls.length ? toolCalls : undefined,
         usage: completion.usage
           ? {
               promptTokens: completion.usage.input_tokens,
@@ -60,10 +135,238 @@ export class ClaudeProvider implements LLMProvider {
             }
           : undefined,
         provider: this.name,
+        model: completion.model,
       };
     } catch (error) {
       this.logger.error('Error generating completion with Claude', error);
-      throw error;
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: LLMProviderOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.client) {
+      throw new Error('Claude client is not initialized');
+    }
+
+    try {
+      const stream = await this.client.messages.create(
+        {
+          ...this.buildRequest(messages, options),
+          stream: true,
+        },
+        sdkRequestOptions(options)
+      );
+
+      // Input tokens arrive with message_start, output tokens with message_delta
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let model: string | undefined;
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          promptTokens = event.message.usage.input_tokens;
+          model = event.message.model;
+        } else if (
+          event.type === 'content_block_delta' &&
+          event.delta.type === 'text_delta'
+        ) {
+          yield { delta: event.delta.text, done: false, provider: this.name };
+        } else if (
+          event.type === 'content_block_delta' &&
+          event.delta.type === 'input_json_delta' &&
+          options.responseFormat
+        ) {
+          yield {
+            delta: event.delta.partial_json,
+            done: false,
+            provider: this.name,
+          };
+        } else if (event.type === 'message_delta') {
+          completionTokens = event.usage.output_tokens;
+        }
+      }
+
+      yield {
+        delta: '',
+        done: true,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        provider: this.name,
+        model,
+      };
+    } catch (error) {
+      this.logger.error('Error streaming completion with Claude', error);
+      throw this.toProviderError(error);
+    }
+  }
+
+  private toProviderError(error: unknown): unknown {
+    if (error instanceof Anthropic.APIUserAbortError) {
+      return error;
+    }
+    if (error instanceof Anthropic.APIConnectionTimeoutError) {
+      return new TimeoutError(error.message, this.name, error);
+    }
+    if (error instanceof Anthropic.APIConnectionError) {
+      return new ProviderUnavailableError(
+        error.message,
+        this.name,
+        undefined,
+        error
+      );
+    }
+    if (error instanceof Anthropic.APIError) {
+      // Error bodies look like { type: 'error', error: { type, message } }
+      const body = error.error as { error?: { type?: string } } | undefined;
+      return providerErrorFromStatus(this.name, error.status, error.message, {
+        code: body?.error?.type,
+        retryAfterMs: parseRetryAfter(error.headers),
+        cause: error,
+      });
+    }
+    return error;
+  }
+
+  private buildRequest(messages: LLMMessage[], options: LLMProviderOptions) {
+    // Claude takes a single system prompt, so every system message (e.g. a
+    // context summary after the template's instructions) is joined into it
+    const system = messages
+      .filter((msg) => msg.role === 'system')
+      .map((msg) => getMessageText(msg.content))
+      .join('\n\n');
+    const userMessages = messages.filter((msg) => msg.role !== 'system');
+    const model = options.model || this.defaultModel;
+
+    if (hasImages(messages) && TEXT_ONLY_MODELS.test(model)) {
+      throw new ModelCapabilityError(this.name, model, 'image input');
+    }
+
+    return {
+      model,
+      system: system || undefined,
+      messages: this.toMessageParams(userMessages),
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens || 4096,
+      top_p: options.topP,
+      ...(options.responseFormat
+        ? this.toResponseTool(options.responseFormat)
+        : {
+            tools: options.tools?.map(
+              (tool): Anthropic.Tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: { type: 'object', ...tool.parameters },
+              })
+            ),
+            tool_choice: this.toToolChoice(options.toolChoice),
+          }),
+    };
+  }
+
+  private toResponseTool(format: LLMResponseFormat): {
+    tools: Anthropic.Tool[];
+    tool_choice: Anthropic.ToolChoice;
+  } {
+    return {
+      tools: [
+        {
+          name: RESPONSE_TOOL,
+          description: `Respond with the ${format.name || 'result'} object`,
+          input_schema: { type: 'object', ...format.schema },
+        },
+      ],
+      tool_choice: { type: 'tool', name: RESPONSE_TOOL },
+    };
+  }
+
+  private toMessageParams(messages: LLMMessage[]): Anthropic.MessageParam[] {
+    const params: Anthropic.MessageParam[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const result: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId || '',
+          content: getMessageText(msg.content),
+        };
+
+        // Results of parallel tool calls must share a single user turn
+        const previous = params[params.length - 1];
+        if (
+          previous?.role === 'user' &&
+          Array.isArray(previous.content) &&
+          previous.content.every((block) => block.type === 'tool_result')
+        ) {
+          previous.content.push(result);
+        } else {
+          params.push({ role: 'user', content: [result] });
+        }
+        continue;
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        const text = getMessageText(msg.content);
+        params.push({
+          role: 'assistant',
+          content: [
+            ...(text ? [{ type: 'text' as const, text }] : []),
+            ...msg.toolCalls.map((call) => ({
+              type: 'tool_use' as const,
+              id: call.id,
+              name: call.name,
+              input: call.arguments,
+            })),
+          ],
+        });
+        continue;
+      }
+
+      params.push({
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        content:
+          msg.role === 'user' && typeof msg.content !== 'string'
+            ? msg.content.map(
+                (part): Anthropic.TextBlockParam | Anthropic.ImageBlockParam =>
+                  part.type === 'text'
+                    ? { type: 'text', text: part.text }
+                    : {
+                        type: 'image',
+                        source:
+                          part.source.type === 'url'
+                            ? { type: 'url', url: part.source.url }
+                            : {
+                                type: 'base64',
+                                media_type: part.source.mediaType,
+                                data: part.source.data,
+                              },
+                      }
+              )
+            : getMessageText(msg.content),
+      });
+    }
+
+    return params;
+  }
+
+  private toToolChoice(
+    choice?: LLMToolChoice
+  ): Anthropic.ToolChoice | undefined {
+    switch (choice) {
+      case undefined:
+        return undefined;
+      case 'auto':
+        return { type: 'auto' };
+      case 'none':
+        return { type: 'none' };
+      case 'required':
+        return { type: 'any' };
+      default:
+        return { type: 'tool', name: choice.name };
     }
   }
-}
\ No newline at end of file
+}
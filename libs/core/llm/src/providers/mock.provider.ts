@@ -0,0 +1,262 @@
+import { Injectable } from '@nestjs/common';
+import {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMProviderOptions,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMUsage,
+} from '../interfaces/llm-provider.interface';
+import { LLMDiscoveredModel } from '../interfaces/model-catalog.interface';
+import {
+  ProviderUnavailableError,
+  TimeoutError,
+} from '../errors/llm-provider.error';
+import { getMessageText } from '../utils/message-content';
+import { estimatePromptTokens, estimateTokens } from '../utils/token-estimator';
+
+/** One scripted answer of the mock provider */
+export interface MockResponse {
+  content?: string;
+  toolCalls?: LLMToolCall[];
+  /** Reported usage; estimated from the prompt and content when omitted */
+  usage?: LLMUsage;
+  /** Overrides the provider-wide `latencyMs` for this answer */
+  latencyMs?: number;
+  /** Fails the call with this error instead of answering */
+  error?: Error;
+}
+
+export type MockResponder = (
+  messages: LLMMessage[],
+  options: LLMProviderOptions
+) => MockResponse | string;
+
+export interface MockProviderOptions {
+  /** Registered provider name (default 'mock') */
+  name?: string;
+  /** Model reported when the request does not name one (default 'mock-model') */
+  model?: string;
+  /**
+   * Answers returned in order, the last one repeating once the script runs
+   * out, or a function computing each answer. Without either, the provider
+   * echoes the last user message.
+   */
+  responses?: (MockResponse | string)[] | MockResponder;
+  /** Milliseconds before each answer (or the first stream chunk) */
+  latencyMs?: number;
+  /** Milliseconds between stream chunks */
+  chunkDelayMs?: number;
+  /**
+   * Share of calls, between 0 and 1, that fail with `failureError`. Use
+   * `failNext()` for deterministic failures.
+   */
+  failureRate?: number;
+  /** Error thrown by injected failures (default a retryable 503) */
+  failureError?: () => Error;
+  /** Initial `isAvailable()` result (default true) */
+  available?: boolean;
+}
+
+/** A completion request the mock provider received */
+export interface MockProviderCall {
+  messages: LLMMessage[];
+  options: LLMProviderOptions;
+  stream: boolean;
+}
+
+/**
+ * Offline provider with scripted answers for development and tests. It is
+ * never registered implicitly; see `LLMModuleOptions.mock`.
+ */
+@Injectable()
+export class MockProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly type = 'mock';
+  public readonly defaultModel: string;
+  /** Requests received so far, oldest first */
+  readonly calls: MockProviderCall[] = [];
+
+  private available: boolean;
+  private pendingFailures: Error[] = [];
+  private scriptPosition = 0;
+
+  constructor(private readonly options: MockProviderOptions = {}) {
+    this.name = options.name || 'mock';
+    this.defaultModel = options.model || 'mock-model';
+    this.available = options.available ?? true;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  async listModels(): Promise<LLMDiscoveredModel[]> {
+    return [{ id: this.defaultModel }];
+  }
+
+  setAvailable(available: boolean): void {
+    this.available = available;
+  }
+
+  /** Makes the next `count` calls fail, with `error` or the default failure */
+  failNext(count = 1, error?: Error): void {
+    for (let i = 0; i < count; i++) {
+      this.pendingFailures.push(error ?? this.failure());
+    }
+  }
+
+  /** Forgets recorded calls, pending failures and the script position */
+  reset(): void {
+    this.calls.length = 0;
+    this.pendingFailures = [];
+    this.scriptPosition = 0;
+  }
+
+  async generateCompletion(
+    messages: LLMMessage[],
+    options: LLMProviderOptions = {}
+  ): Promise<LLMResponse> {
+    const answer = this.answer(messages, options, false);
+    await this.respondAfter(
+      answer.latencyMs ?? this.options.latencyMs,
+      options
+    );
+    if (answer.error) {
+      throw answer.error;
+    }
+
+    const content = answer.content ?? '';
+    return {
+      content,
+      toolCalls: answer.toolCalls,
+      usage: answer.usage ?? this.estimateUsage(messages, content),
+      provider: this.name,
+      model: this.modelFor(options),
+    };
+  }
+
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: LLMProviderOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const answer = this.answer(messages, options, true);
+    await this.respondAfter(
+      answer.latencyMs ?? this.options.latencyMs,
+      options
+    );
+    if (answer.error) {
+      throw answer.error;
+    }
+
+    const content = answer.content ?? '';
+    // Word-sized deltas, whitespace attached to the preceding word
+    for (const delta of content.match(/\s*\S+\s*/g) ?? []) {
+      yield { delta, done: false, provider: this.name };
+      await this.delay(this.options.chunkDelayMs, options);
+    }
+
+    yield {
+      delta: '',
+      done: true,
+      usage: answer.usage ?? this.estimateUsage(messages, content),
+      provider: this.name,
+      model: this.modelFor(options),
+    };
+  }
+
+  private answer(
+    messages: LLMMessage[],
+    options: LLMProviderOptions,
+    stream: boolean
+  ): MockResponse {
+    this.calls.push({ messages, options, stream });
+
+    const injected = this.pendingFailures.shift();
+    if (injected) {
+      return { error: injected };
+    }
+    if (this.options.failureRate && Math.random() < this.options.failureRate) {
+      return { error: this.failure() };
+    }
+
+    const { responses } = this.options;
+    let answer: MockResponse | string;
+    if (typeof responses === 'function') {
+      answer = responses(messages, options);
+    } else if (responses?.length) {
+      answer = responses[Math.min(this.scriptPosition++, responses.length - 1)];
+    } else {
+      const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+      answer = `Mock response to: ${
+        lastUser ? getMessageText(lastUser.content) : ''
+      }`;
+    }
+
+    return typeof answer === 'string' ? { content: answer } : answer;
+  }
+
+  private failure(): Error {
+    return (
+      this.options.failureError?.() ??
+      new ProviderUnavailableError(
+        'Injected mock provider failure',
+        this.name,
+        503
+      )
+    );
+  }
+
+  private modelFor(options: LLMProviderOptions): string {
+    return options.model || this.defaultModel;
+  }
+
+  private estimateUsage(messages: LLMMessage[], content: string): LLMUsage {
+    const promptTokens = estimatePromptTokens(messages);
+    const completionTokens = estimateTokens(content);
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+
+  /** Waits out the latency, failing like a real provider past `timeoutMs` */
+  private async respondAfter(
+    latencyMs: number | undefined,
+    options: LLMProviderOptions
+  ): Promise<void> {
+    const { timeoutMs } = options;
+    if (timeoutMs && latencyMs && latencyMs > timeoutMs) {
+      await this.delay(timeoutMs, options);
+      throw new TimeoutError(
+        `Mock provider did not respond within ${timeoutMs}ms`,
+        this.name
+      );
+    }
+    await this.delay(latencyMs, options);
+  }
+
+  private delay(ms: number | undefined, options: LLMProviderOptions) {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (!ms) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { OllamaProvider } from './ollama.provider';
+import { ProviderUnavailableError } from '../errors/llm-provider.error';
+import { LLMStreamChunk } from '../interfaces/llm-provider.interface';
+
+/** An /api/chat streaming response delivering the body in the given pieces */
+function streamResponse(pieces: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+async function collect(
+  stream: AsyncIterable<LLMStreamChunk>
+): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('OllamaProvider', () => {
+  let provider: OllamaProvider;
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    provider = new OllamaProvider();
+    fetchSpy = jest.spyOn(global, 'fetch');
+    jest.spyOn(provider['logger'], 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('streamCompletion', () => {
+    const messages = [{ role: 'user' as const, content: 'hi' }];
+    const line = (data: object) => JSON.stringify(data) + '\n';
+
+    it('should stream content and finish with usage', async () => {
+      fetchSpy.mockResolvedValue(
+        streamResponse([
+          line({ message: { content: 'Hel' } }),
+          // A line split across reads
+          '{"message":{"content":"lo"}}\n{"model":"llama3.2",',
+          '"done":true,"prompt_eval_count":3,"eval_count":2}\n',
+        ])
+      );
+
+      const chunks = await collect(provider.streamCompletion(messages));
+
+      expect(chunks).toEqual([
+        { delta: 'Hel', done: false, provider: 'ollama' },
+        { delta: 'lo', done: false, provider: 'ollama' },
+        {
+          delta: '',
+          done: true,
+          usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+          provider: 'ollama',
+          model: 'llama3.2',
+        },
+      ]);
+    });
+
+    it('should parse a final line without a trailing newline', async () => {
+      fetchSpy.mockResolvedValue(
+        streamResponse([
+          line({ message: { content: 'Hi' } }),
+          JSON.stringify({ model: 'llama3.2', done: true, eval_count: 1 }),
+        ])
+      );
+
+      const chunks = await collect(provider.streamCompletion(messages));
+
+      expect(chunks.map((chunk) => chunk.done)).toEqual([false, true]);
+    });
+
+    it('should throw a provider error for a mid-stream error line', async () => {
+      fetchSpy.mockResolvedValue(
+        streamResponse([
+          line({ message: { content: 'Hi' } }),
+          line({ error: 'model runner has unexpectedly stopped' }),
+        ])
+      );
+      const chunks: LLMStreamChunk[] = [];
+
+      const error = await (async () => {
+        for await (const chunk of provider.streamCompletion(messages)) {
+          chunks.push(chunk);
+        }
+      })().catch((caught) => caught);
+
+      expect(chunks).toHaveLength(1);
+      expect(error).toBeInstanceOf(ProviderUnavailableError);
+      expect(error.message).toBe(
+        'Ollama API error: model runner has unexpectedly stopped'
+      );
+    });
+
+    it('should throw when the stream ends without a done line', async () => {
+      fetchSpy.mockResolvedValue(
+        streamResponse([line({ message: { content: 'Hi' } })])
+      );
+
+      await expect(
+        collect(provider.streamCompletion(messages))
+      ).rejects.toBeInstanceOf(ProviderUnavailableError);
+    });
+  });
+});
@@ -1,21 +1,83 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import {
   LLMProvider,
   LLMMessage,
   LLMResponse,
   LLMProviderOptions,
+  LLMStreamChunk,
 } from '../interfaces/llm-provider.interface';
+import {
+  EmbeddingProvider,
+  EmbeddingOptions,
+  EmbeddingResponse,
+} from '../interfaces/embedding-provider.interface';
+import { LLMProviderInstanceOptions } from '../interfaces/provider-config.interface';
+import { LLMDiscoveredModel } from '../interfaces/model-catalog.interface';
+import { ModelCapabilityError } from '../errors/model-capability.error';
+import {
+  LLMProviderError,
+  ProviderUnavailableError,
+  TimeoutError,
+} from '../errors/llm-provider.error';
+import {
+  getMessageImages,
+  getMessageText,
+  hasImages,
+} from '../utils/message-content';
+import {
+  parseRetryAfter,
+  providerErrorFromStatus,
+} from '../utils/provider-errors';
+
+// Model families that accept the `images` field; others ignore it silently
+const VISION_MODELS =
+  /(llava|vision|moondream|minicpm-v|gemma3|qwen2\.5vl|mistral-small3\.[12]|llama4)/;
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  /** Sent instead of a message when generation fails mid-stream */
+  error?: string;
+}
+
+interface OllamaTagsResponse {
+  models: { name: string; details?: { families?: string[] | null } }[];
+}
+
+interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  prompt_eval_count?: number;
+}
 
 @Injectable()
-export class OllamaProvider implements LLMProvider {
+export class OllamaProvider implements LLMProvider, EmbeddingProvider {
   private readonly logger = new Logger(OllamaProvider.name);
-  public readonly name = 'ollama';
+  public readonly name: string;
+  public readonly type = 'ollama';
+  public readonly defaultModel: string;
 
-  constructor(private readonly baseUrl: string = 'http://localhost:11434') {}
+  constructor(
+    private readonly baseUrl = 'http://localhost:11434',
+    options: Omit<LLMProviderInstanceOptions, 'baseUrl'> = {}
+  ) {
+    this.name = options.name || 'ollama';
+    this.defaultModel = options.defaultModel || 'llama3.2';
+  }
 
   async isAvailable(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/tags`);
+      const response = await fetch(`${this.baseUrl}/api/tags`, {
+        signal: AbortSignal.timeout(5000),
+      });
       return response.ok;
     } catch (error) {
       this.logger.error('Ollama provider is not available', error);
@@ -23,51 +85,323 @@ export class OllamaProvider implements LLMProvider {
     }
   }
 
+  /** The locally pulled models, from /api/tags */
+  async listModels(): Promise<LLMDiscoveredModel[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`, {
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        throw await this.toResponseError(response);
+      }
+
+      const data = (await response.json()) as OllamaTagsResponse;
+      return data.models.map(({ name, details }) => {
+        const families = details?.families ?? [];
+        const embeddingOnly = families.some((family) =>
+          family.includes('bert')
+        );
+        return {
+          // Ollama resolves a bare name to its :latest tag
+          id: name.replace(/:latest$/, ''),
+          capabilities: {
+            chat: !embeddingOnly,
+            embeddings: embeddingOnly,
+            vision:
+              VISION_MODELS.test(name) ||
+              families.some(
+                (family) => family === 'clip' || family === 'mllama'
+              ),
+          },
+        };
+      });
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
   async generateCompletion(
     messages: LLMMessage[],
     options: LLMProviderOptions = {}
   ): Promise<LLMResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
+      const response = await this.chat(messages, options, false);
+      const data = (await response.json()) as OllamaChatResponse;
+
+      return {
+        content: data.message?.content || '',
+        // Ollama does not assign call ids, so generate them for tool replies
+        toolCalls: data.message?.tool_calls?.map((call) => ({
+          id: randomUUID(),
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+        usage: data.eval_count
+          ? {
+              promptTokens: data.prompt_eval_count || 0,
+              completionTokens: data.eval_count || 0,
+              totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+            }
+          : undefined,
+        provider: this.name,
+        model: data.model,
+      };
+    } catch (error) {
+      this.logger.error('Error generating completion with Ollama', error);
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: LLMProviderOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+    try {
+      const response = await this.chat(messages, options, true);
+      if (!response.body) {
+        throw new Error('Ollama API returned an empty stream');
+      }
+
+      // Ollama streams newline-delimited JSON objects
+      reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        // On the last read, flush the decoder and keep the final line even
+        // when it lacks a trailing newline
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          const data = JSON.parse(line) as OllamaChatResponse;
+          // The 200 status is already sent, so failures arrive in the body
+          if (data.error) {
+            throw providerErrorFromStatus(
+              this.name,
+              undefined,
+              `Ollama API error: ${data.error}`
+            );
+          }
+          if (data.message?.content) {
+            yield {
+              delta: data.message.content,
+              done: false,
+              provider: this.name,
+            };
+          }
+
+          if (data.done) {
+            yield {
+              delta: '',
+              done: true,
+              usage: {
+                promptTokens: data.prompt_eval_count || 0,
+                completionTokens: data.eval_count || 0,
+                totalTokens:
+                  (data.prompt_eval_count || 0) + (data.eval_count || 0),
+              },
+              provider: this.name,
+              model: data.model,
+            };
+            return;
+          }
+        }
+
+        if (done) break;
+      }
+
+      // The connection closed before Ollama sent its final `done` line
+      throw new ProviderUnavailableError(
+        'Ollama stream ended before the completion finished',
+        this.name
+      );
+    } catch (error) {
+      this.logger.error('Error streaming completion with Ollama', error);
+      throw this.toProviderError(error);
+    } finally {
+      // Releases the connection when the consumer stops reading early
+      await reader?.cancel().catch(() => undefined);
+    }
+  }
+
+  async embed(
+    texts: string[],
+    options: EmbeddingOptions = {}
+  ): Promise<EmbeddingResponse> {
+    try {
+      const deadline = this.startDeadline(options.signal, options.timeoutMs);
+      const response = await fetch(`${this.baseUrl}/api/embed`, {
         method: 'POST',
+        signal: deadline.signal,
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: options.model || 'llama3.2',
-          messages: messages.map((msg) => ({
-            role: msg.role,
-            content: msg.content,
-          })),
-          stream: false,
-          options: {
-            temperature: options.temperature ?? 0.7,
-            num_predict: options.maxTokens,
-            top_p: options.topP,
-          },
+          model: options.model || 'nomic-embed-text',
+          input: texts,
+          dimensions: options.dimensions,
         }),
-      });
+      }).finally(deadline.clear);
 
       if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
+        throw await this.toResponseError(response);
       }
 
-      const data = await response.json() as any;
-
+      const data = (await response.json()) as OllamaEmbedResponse;
       return {
-        content: data.message?.content || '',
-        usage: data.eval_count
+        embeddings: data.embeddings,
+        model: data.model,
+        dimensions: data.embeddings[0]?.length || 0,
+        usage: data.prompt_eval_count
           ? {
-              promptTokens: data.prompt_eval_count || 0,
-              completionTokens: data.eval_count || 0,
-              totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+              promptTokens: data.prompt_eval_count,
+              completionTokens: 0,
+              totalTokens: data.prompt_eval_count,
             }
           : undefined,
         provider: this.name,
       };
     } catch (error) {
-      this.logger.error('Error generating completion with Ollama', error);
-      throw error;
+      this.logger.error('Error generating embeddings with Ollama', error);
+      throw this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Combines the caller's signal with a timer that aborts with a TimeoutError.
+   * `clear` must be called once the response headers arrive, matching the
+   * `timeout` option of the OpenAI and Anthropic SDKs.
+   */
+  private startDeadline(
+    signal?: AbortSignal,
+    timeoutMs?: number
+  ): { signal?: AbortSignal; clear: () => void } {
+    if (!timeoutMs) {
+      return { signal, clear: () => undefined };
     }
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new TimeoutError(
+            `Ollama did not respond within ${timeoutMs}ms`,
+            this.name
+          )
+        ),
+      timeoutMs
+    );
+
+    return {
+      signal: signal
+        ? AbortSignal.any([signal, controller.signal])
+        : controller.signal,
+      clear: () => clearTimeout(timer),
+    };
+  }
+
+  private async toResponseError(response: Response): Promise<LLMProviderError> {
+    // Ollama error bodies look like { "error": "model 'x' not found" }
+    const body = (await response.json().catch(() => undefined)) as
+      | { error?: string }
+      | undefined;
+    return providerErrorFromStatus(
+      this.name,
+      response.status,
+      `Ollama API error: ${body?.error || response.statusText}`,
+      { retryAfterMs: parseRetryAfter(response.headers) }
+    );
+  }
+
+  private toProviderError(error: unknown): unknown {
+    // fetch rejects with this TypeError when the server cannot be reached
+    if (error instanceof TypeError && error.message === 'fetch failed') {
+      return new ProviderUnavailableError(
+        `Ollama is not reachable at ${this.baseUrl}: ${error.message}`,
+        this.name,
+        undefined,
+        error
+      );
+    }
+    return error;
+  }
+
+  private toImages(msg: LLMMessage, model: string): string[] | undefined {
+    const images = getMessageImages(msg.content).map((part) => {
+      if (part.source.type !== 'base64') {
+        throw new ModelCapabilityError(
+          this.name,
+          model,
+          'image URLs',
+          'Ollama only accepts base64-encoded images'
+        );
+      }
+      return part.source.data;
+    });
+
+    return images.length ? images : undefined;
+  }
+
+  private async chat(
+    messages: LLMMessage[],
+    options: LLMProviderOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const model = options.model || this.defaultModel;
+    if (hasImages(messages) && !VISION_MODELS.test(model)) {
+      throw new ModelCapabilityError(this.name, model, 'image input');
+    }
+
+    const deadline = this.startDeadline(options.signal, options.timeoutMs);
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: deadline.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: messages.map((msg) => ({
+          role: msg.role,
+          content: getMessageText(msg.content),
+          images: this.toImages(msg, model),
+          tool_calls: msg.toolCalls?.map((call) => ({
+            function: { name: call.name, arguments: call.arguments },
+          })),
+          tool_name: msg.role === 'tool' ? msg.name : undefined,
+        })),
+        tools: options.tools?.map((tool) => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+        // Ollama accepts either 'json' or a JSON Schema to constrain output
+        format: options.responseFormat
+          ? options.responseFormat.schema || 'json'
+          : undefined,
+        stream,
+        options: {
+          temperature: options.temperature ?? 0.7,
+          num_predict: options.maxTokens,
+          top_p: options.topP,
+        },
+      }),
+    }).finally(deadline.clear);
+
+    if (!response.ok) {
+      throw await this.toResponseError(response);
+    }
+
+    return response;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { LLMDiscoveredModel } from '../interfaces/model-catalog.interface';
+import { OpenAIProvider } from './openai.provider';
+
+export interface OpenAICompatibleProviderOptions {
+  /** Registered name (default 'openai-compatible') */
+  name?: string;
+  /** API root including the version, e.g. http://localhost:8000/v1 */
+  baseUrl: string;
+  /** Omit for servers without authentication */
+  apiKey?: string;
+  /** Extra HTTP headers sent with every request and health probe */
+  headers?: Record<string, string>;
+  /** Models the server offers; the first is the default unless set below */
+  models?: string[];
+  defaultModel?: string;
+  embeddingModel?: string;
+  /**
+   * Path probed by `isAvailable`, relative to `baseUrl` unless it starts
+   * with '/' (server root) or is a full URL. Defaults to 'models'; false
+   * skips probing and reports the server as available.
+   */
+  healthCheckPath?: string | false;
+  /** Milliseconds before the probe counts as failed (default 5000) */
+  healthCheckTimeoutMs?: number;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: vLLM, LM Studio,
+ * llama.cpp, Groq, Together and the like. Model capabilities are not known
+ * up front, so image input is passed through and left to the server.
+ */
+@Injectable()
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  public override readonly type: string = 'openai-compatible';
+  readonly models: string[];
+
+  private readonly probeUrl?: string;
+  private readonly probeHeaders: Record<string, string>;
+  private readonly probeTimeoutMs: number;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    // The SDK insists on a key even for servers that ignore it
+    super(options.apiKey || 'not-needed', {
+      name: options.name || 'openai-compatible',
+      baseUrl: options.baseUrl,
+      headers: options.headers,
+      defaultModel: options.defaultModel || options.models?.[0],
+      embeddingModel: options.embeddingModel,
+    });
+    this.models = options.models ?? [];
+
+    const { healthCheckPath = 'models' } = options;
+    if (healthCheckPath !== false) {
+      const base = options.baseUrl.endsWith('/')
+        ? options.baseUrl
+        : `${options.baseUrl}/`;
+      this.probeUrl = new URL(healthCheckPath, base).toString();
+    }
+    this.probeHeaders = {
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      ...options.headers,
+    };
+    this.probeTimeoutMs = options.healthCheckTimeoutMs ?? 5000;
+  }
+
+  override async isAvailable(): Promise<boolean> {
+    if (!this.probeUrl) {
+      return true;
+    }
+    try {
+      const response = await fetch(this.probeUrl, {
+        headers: this.probeHeaders,
+        signal: AbortSignal.timeout(this.probeTimeoutMs),
+      });
+      return response.ok;
+    } catch (error) {
+      this.logger.error(
+        `${this.name} is not reachable at ${this.probeUrl}`,
+        error
+      );
+      return false;
+    }
+  }
+
+  /** The configured `models`, or else the server's own listing */
+  override async listModels(): Promise<LLMDiscoveredModel[]> {
+    if (this.models.length) {
+      return this.models.map((id) => ({ id }));
+    }
+    return super.listModels();
+  }
+
+  // No model is common to every compatible server
+  protected override fallbackModel(): string | undefined {
+    return undefined;
+  }
+
+  protected override supportsImages(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,33 @@
+import OpenAI from 'openai';
+import { OpenAIProvider } from './openai.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { InvalidRequestError } from '../errors/llm-provider.error';
+
+describe('OpenAIProvider', () => {
+  describe('streamCompletion', () => {
+    it.each([
+      ['openai', new OpenAIProvider('sk-test')],
+      [
+        'openai-compatible',
+        new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1' }),
+      ],
+    ])(
+      'should reject tools up front on %s',
+      async (_name, provider: OpenAIProvider) => {
+        const create = jest.spyOn(
+          (provider['client'] as OpenAI).chat.completions,
+          'create'
+        );
+
+        await expect(
+          provider
+            .streamCompletion([{ role: 'user', content: 'hi' }], {
+              tools: [{ name: 'get_weather', parameters: { type: 'object' } }],
+            })
+            .next()
+        ).rejects.toBeInstanceOf(InvalidRequestError);
+        expect(create).not.toHaveBeenCalled();
+      }
+    );
+  });
+});
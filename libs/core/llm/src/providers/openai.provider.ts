@@ -1,21 +1,87 @@
 import { Injectable, Logger } from '@nestjs/common';
-import OpenAI from 'openai';
+import OpenAI, { AzureOpenAI } from 'openai';
 import {
   LLMProvider,
   LLMMessage,
   LLMResponse,
   LLMProviderOptions,
+  LLMStreamChunk,
+  LLMUsage,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMResponseFormat,
 } from '../interfaces/llm-provider.interface';
+import {
+  EmbeddingProvider,
+  EmbeddingOptions,
+  EmbeddingResponse,
+} from '../interfaces/embedding-provider.interface';
+import { LLMProviderInstanceOptions } from '../interfaces/provider-config.interface';
+import { LLMDiscoveredModel } from '../interfaces/model-catalog.interface';
+import { ModelCapabilityError } from '../errors/model-capability.error';
+import {
+  ContentFilterError,
+  InvalidRequestError,
+  ProviderUnavailableError,
+  TimeoutError,
+} from '../errors/llm-provider.error';
+import { getMessageText, hasImages } from '../utils/message-content';
+import {
+  parseRetryAfter,
+  providerErrorFromStatus,
+} from '../utils/provider-errors';
+import { sdkRequestOptions } from '../utils/sdk-request-options';
+
+// Chat models that accept image_url content parts
+const VISION_MODELS =
+  /^(ft:)?(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-4-turbo|gpt-5|o1(?!-mini)|o3(?!-mini)|o4)/;
+
+export interface OpenAIProviderOptions extends LLMProviderInstanceOptions {
+  organization?: string;
+  /** Embedding model used when a request does not name one */
+  embeddingModel?: string;
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  /**
+   * Azure OpenAI API version; switches the client to Azure, where `baseUrl`
+   * is the resource endpoint and model names are deployment names
+   */
+  azureApiVersion?: string;
+}
 
 @Injectable()
-export class OpenAIProvider implements LLMProvider {
-  private readonly logger = new Logger(OpenAIProvider.name);
-  private client: OpenAI | null = null;
-  public readonly name = 'openai';
+export class OpenAIProvider implements LLMProvider, EmbeddingProvider {
+  protected readonly logger = new Logger(OpenAIProvider.name);
+  protected client: OpenAI | null = null;
+  public readonly name: string;
+  public readonly type: string = 'openai';
+  public readonly defaultModel?: string;
+  protected readonly defaultEmbeddingModel?: string;
 
-  constructor(private readonly apiKey?: string) {
+  constructor(
+    private readonly apiKey?: string,
+    options: OpenAIProviderOptions = {}
+  ) {
+    this.name = options.name || 'openai';
+    this.defaultModel = options.defaultModel || this.fallbackModel();
+    this.defaultEmbeddingModel = options.embeddingModel;
     if (this.apiKey) {
-      this.client = new OpenAI({ apiKey: this.apiKey });
+      // LLMService owns the retry policy; SDK retries would multiply it
+      this.client = options.azureApiVersion
+        ? new AzureOpenAI({
+            apiKey: this.apiKey,
+            endpoint: options.baseUrl,
+            apiVersion: options.azureApiVersion,
+            defaultHeaders: options.headers,
+            maxRetries: 0,
+          })
+        : new OpenAI({
+            apiKey: this.apiKey,
+            baseURL: options.baseUrl,
+            organization: options.organization,
+            defaultHeaders: options.headers,
+            maxRetries: 0,
+          });
     }
   }
 
@@ -41,21 +107,25 @@ export class OpenAIProvider implements LLMProvider {
     }
 
     try {
-      const completion = await this.client.chat.completions.create({
-        model: options.model || 'gpt-4o-mini',
-        messages: messages.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        })),
-        temperature: options.temperature ?? 0.7,
-        max_tokens: options.maxTokens,
-        top_p: options.topP,
-        stream: false,
-      });
+      const completion = await this.client.chat.completions.create(
+        {
+          ...this.buildRequest(messages, options),
+          stream: false,
+        },
+        sdkRequestOptions(options)
+      );
 
       const response = completion.choices[0];
+      if (response.finish_reason === 'content_filter') {
+        throw new ContentFilterError(
+          'Completion was blocked by the OpenAI content filter',
+          this.name
+        );
+      }
+
       return {
         content: response.message?.content || '',
+        toolCalls: this.fromToolCalls(response.message?.tool_calls),
         usage: completion.usage
           ? {
               promptTokens: completion.usage.prompt_tokens,
@@ -64,10 +134,307 @@ export class OpenAIProvider implements LLMProvider {
             }
           : undefined,
         provider: this.name,
+        model: completion.model,
       };
     } catch (error) {
       this.logger.error('Error generating completion with OpenAI', error);
-      throw error;
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: LLMProviderOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.client) {
+      throw new Error('OpenAI client is not initialized');
+    }
+    // Stream chunks carry text only, so tool calls would be dropped silently
+    if (options.tools?.length) {
+      throw new InvalidRequestError(
+        'Streaming is not supported together with tools',
+        this.name
+      );
+    }
+
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          ...this.buildRequest(messages, options),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        sdkRequestOptions(options)
+      );
+
+      let usage: LLMUsage | undefined;
+      let model: string | undefined;
+      for await (const chunk of stream) {
+        model = chunk.model;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield { delta, done: false, provider: this.name };
+        }
+        // With include_usage the last chunk has no choices and carries usage
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+      }
+
+      yield { delta: '', done: true, usage, provider: this.name, model };
+    } catch (error) {
+      this.logger.error('Error streaming completion with OpenAI', error);
+      throw this.toProviderError(error);
+    }
+  }
+
+  async embed(
+    texts: string[],
+    options: EmbeddingOptions = {}
+  ): Promise<EmbeddingResponse> {
+    if (!this.client) {
+      throw new Error('OpenAI client is not initialized');
+    }
+
+    try {
+      const result = await this.client.embeddings.create(
+        {
+          model:
+            options.model ||
+            this.defaultEmbeddingModel ||
+            'text-embedding-3-small',
+          input: texts,
+          dimensions: options.dimensions,
+        },
+        sdkRequestOptions(options)
+      );
+
+      const embeddings = [...result.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+
+      return {
+        embeddings,
+        model: result.model,
+        dimensions: embeddings[0]?.length || 0,
+        usage: {
+          promptTokens: result.usage.prompt_tokens,
+          completionTokens: 0,
+          totalTokens: result.usage.total_tokens,
+        },
+        provider: this.name,
+      };
+    } catch (error) {
+      this.logger.error('Error generating embeddings with OpenAI', error);
+      throw this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Lists the models of the account. Azure lists base models rather than the
+   * deployments requests are addressed to, so nothing is reported there.
+   */
+  async listModels(): Promise<LLMDiscoveredModel[]> {
+    if (!this.client) {
+      throw new Error('OpenAI client is not initialized');
+    }
+    if (this.client instanceof AzureOpenAI) {
+      return [];
+    }
+
+    const models: LLMDiscoveredModel[] = [];
+    for await (const model of this.client.models.list()) {
+      // vLLM reports the context length it was started with
+      const { max_model_len } = model as { max_model_len?: unknown };
+      models.push({
+        id: model.id,
+        capabilities:
+          typeof max_model_len === 'number'
+            ? { contextWindow: max_model_len }
+            : undefined,
+      });
+    }
+    return models;
+  }
+
+  /** Default model when the instance configures none */
+  protected fallbackModel(): string | undefined {
+    return 'gpt-4o-mini';
+  }
+
+  /** Model a request runs on when it does not name one */
+  protected resolveModel(options: LLMProviderOptions): string {
+    const model = options.model || this.defaultModel;
+    if (!model) {
+      throw new InvalidRequestError(
+        `No model given and ${this.name} has no default model`,
+        this.name
+      );
+    }
+    return model;
+  }
+
+  protected supportsImages(model: string): boolean {
+    return VISION_MODELS.test(model);
+  }
+
+  private buildRequest(messages: LLMMessage[], options: LLMProviderOptions) {
+    const model = this.resolveModel(options);
+    if (hasImages(messages) && !this.supportsImages(model)) {
+      throw new ModelCapabilityError(this.name, model, 'image input');
+    }
+
+    return {
+      model,
+      messages: messages.map((msg) => this.toChatMessage(msg)),
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      tools: options.tools?.map(
+        (tool): OpenAI.Chat.ChatCompletionTool => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })
+      ),
+      tool_choice: this.toToolChoice(options.toolChoice),
+      response_format: this.toResponseFormat(options.responseFormat),
+    };
+  }
+
+  private toProviderError(error: unknown): unknown {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new TimeoutError(error.message, this.name, error);
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new ProviderUnavailableError(
+        error.message,
+        this.name,
+        undefined,
+        error
+      );
+    }
+    if (error instanceof OpenAI.APIError) {
+      return providerErrorFromStatus(this.name, error.status, error.message, {
+        code: error.code ?? undefined,
+        retryAfterMs: parseRetryAfter(error.headers),
+        cause: error,
+      });
+    }
+    return error;
+  }
+
+  private toChatMessage(
+    msg: LLMMessage
+  ): OpenAI.Chat.ChatCompletionMessageParam {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: msg.toolCallId || '',
+        content: getMessageText(msg.content),
+      };
+    }
+
+    if (msg.role === 'user' && typeof msg.content !== 'string') {
+      return {
+        role: 'user',
+        content: msg.content.map(
+          (part): OpenAI.Chat.ChatCompletionContentPart =>
+            part.type === 'text'
+              ? { type: 'text', text: part.text }
+              : {
+                  type: 'image_url',
+                  image_url: {
+                    url:
+                      part.source.type === 'url'
+                        ? part.source.url
+                        : `data:${part.source.mediaType};base64,${part.source.data}`,
+                  },
+                }
+        ),
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: getMessageText(msg.content) || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+
+    return { role: msg.role, content: getMessageText(msg.content) };
+  }
+
+  private toToolChoice(
+    choice?: LLMToolChoice
+  ): OpenAI.Chat.ChatCompletionToolChoiceOption | undefined {
+    if (!choice || typeof choice === 'string') {
+      return choice;
+    }
+    return { type: 'function', function: { name: choice.name } };
+  }
+
+  private toResponseFormat(
+    format?: LLMResponseFormat
+  ): OpenAI.Chat.ChatCompletionCreateParams['response_format'] {
+    if (!format) {
+      return undefined;
+    }
+    if (!format.schema) {
+      return { type: 'json_object' };
+    }
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: format.name || 'response',
+        schema: format.schema,
+        // Strict mode rejects common schemas (optional fields, open objects);
+        // the result is validated by the caller anyway
+        strict: false,
+      },
+    };
+  }
+
+  private fromToolCalls(
+    toolCalls?: OpenAI.Chat.ChatCompletionMessageToolCall[]
+  ): LLMToolCall[] | undefined {
+    const calls = toolCalls
+      ?.filter((call) => call.type === 'function')
+      .map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: this.parseArguments(call.function.arguments),
+      }));
+
+    return calls?.length ? calls : undefined;
+  }
+
+  private parseArguments(raw: string): Record<string, unknown> {
+    try {
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      // Models occasionally emit malformed JSON; let the handler see nothing
+      // rather than failing the whole completion
+      this.logger.warn(`Could not parse tool call arguments: ${raw}`);
+      return {};
     }
   }
-}
\ No newline at end of file
+}
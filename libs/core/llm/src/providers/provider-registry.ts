@@ -0,0 +1,107 @@
+import { LLMProvider } from '../interfaces/llm-provider.interface';
+import {
+  LLMProviderConfig,
+  LLMProviderFactory,
+} from '../interfaces/provider-config.interface';
+import { OpenAIProvider } from './openai.provider';
+import {
+  OpenAICompatibleProvider,
+  OpenAICompatibleProviderOptions,
+} from './openai-compatible.provider';
+import { ClaudeProvider } from './claude.provider';
+import { OllamaProvider } from './ollama.provider';
+import { MockProvider, MockProviderOptions } from './mock.provider';
+
+/** Factories behind the string `type` values of `LLMProviderConfig` */
+export const BUILT_IN_PROVIDER_TYPES: Record<string, LLMProviderFactory> = {
+  openai: (config) =>
+    new OpenAIProvider(config.apiKey, {
+      name: config.name,
+      baseUrl: config.baseUrl,
+      defaultModel: config.defaultModel,
+      organization: config.options?.['organization'] as string | undefined,
+    }),
+  'openai-compatible': (config) => {
+    if (!config.baseUrl) {
+      throw new Error(
+        `Provider ${config.name || 'openai-compatible'} needs a baseUrl`
+      );
+    }
+    return new OpenAICompatibleProvider({
+      ...(config.options as Partial<OpenAICompatibleProviderOptions>),
+      name: config.name,
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey,
+      defaultModel: config.defaultModel,
+    });
+  },
+  'azure-openai': (config) => {
+    const name = config.name || 'azure-openai';
+    const apiVersion = config.options?.['apiVersion'];
+    if (typeof apiVersion !== 'string' || !config.baseUrl) {
+      throw new Error(
+        `Provider ${name} needs a baseUrl and options.apiVersion`
+      );
+    }
+    return new OpenAIProvider(config.apiKey, {
+      name,
+      baseUrl: config.baseUrl,
+      defaultModel: config.defaultModel,
+      azureApiVersion: apiVersion,
+    });
+  },
+  claude: (config) =>
+    new ClaudeProvider(config.apiKey, {
+      name: config.name,
+      baseUrl: config.baseUrl,
+      defaultModel: config.defaultModel,
+    }),
+  ollama: (config) =>
+    new OllamaProvider(config.baseUrl, {
+      name: config.name,
+      defaultModel: config.defaultModel,
+    }),
+  mock: (config) =>
+    new MockProvider({
+      ...(config.options as MockProviderOptions | undefined),
+      name: config.name,
+      model: config.defaultModel,
+    }),
+};
+
+/**
+ * Instantiates the enabled entries of `configs`, in order. Unknown types and
+ * duplicate names are configuration mistakes and fail module startup.
+ */
+export function createProviders(
+  configs: LLMProviderConfig[],
+  types: Record<string, LLMProviderFactory> = {}
+): LLMProvider[] {
+  const factories = { ...BUILT_IN_PROVIDER_TYPES, ...types };
+  const names = new Set<string>();
+
+  return configs
+    .filter((config) => config.enabled !== false)
+    .map((config) => {
+      let provider: LLMProvider;
+      if (typeof config.type === 'function') {
+        provider = new config.type(config);
+      } else {
+        const factory = factories[config.type];
+        if (!factory) {
+          throw new Error(
+            `Unknown LLM provider type '${config.type}'; register it in providerTypes`
+          );
+        }
+        provider = factory(config);
+      }
+
+      if (names.has(provider.name)) {
+        throw new Error(
+          `LLM provider name '${provider.name}' is declared twice; give each instance a unique name`
+        );
+      }
+      names.add(provider.name);
+      return provider;
+    });
+}
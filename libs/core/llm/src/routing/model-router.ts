@@ -0,0 +1,252 @@
+/**
+ * How the targets of an alias are ordered for a request. The first target
+ * serves it and the rest are its fallbacks, in order.
+ *
+ * - `ordered`: as configured
+ * - `cheapest`: lowest list price first; unpriced targets last
+ * - `lowest-latency`: lowest recent mean latency of the provider first;
+ *   targets without measurements go first so that each one gets measured
+ * - `round-robin`: rotates the starting target on every request
+ * - `weighted`: random order, each target's chance of going first
+ *   proportional to its `weight`
+ */
+export type LLMRoutingPolicy =
+  | 'ordered'
+  | 'cheapest'
+  | 'lowest-latency'
+  | 'round-robin'
+  | 'weighted';
+
+const ROUTING_POLICIES: LLMRoutingPolicy[] = [
+  'ordered',
+  'cheapest',
+  'lowest-latency',
+  'round-robin',
+  'weighted',
+];
+
+export interface LLMRouteTarget {
+  /** Registered provider name */
+  provider: string;
+  /** Defaults to the provider's default model */
+  model?: string;
+  /** Relative share of first picks under the `weighted` policy (default 1) */
+  weight?: number;
+}
+
+export interface LLMModelAlias {
+  /** Targets as objects or `provider/model` (or bare provider) strings */
+  targets: (LLMRouteTarget | string)[];
+  /** Defaults to the service-wide `routingPolicy` */
+  policy?: LLMRoutingPolicy;
+}
+
+/** Aliases keyed by name, e.g. `fast`; pass the name as a request's `model` */
+export type LLMModelAliasTable = Record<string, LLMModelAlias>;
+
+/** An alias as configured, with targets in object form */
+export interface LLMResolvedModelAlias {
+  targets: LLMRouteTarget[];
+  /** The alias's policy, or the service-wide default */
+  policy: LLMRoutingPolicy;
+}
+
+// Starting points naming the built-in providers under their default names.
+// Targets whose provider is not registered are skipped, so each alias works
+// with whichever providers are configured; override them through the
+// `modelAliases` option.
+export const DEFAULT_MODEL_ALIASES: LLMModelAliasTable = {
+  fast: {
+    targets: ['openai/gpt-4o-mini', 'claude/claude-3-5-haiku-latest', 'ollama'],
+  },
+  smart: {
+    targets: ['openai/gpt-4o', 'claude/claude-3-5-sonnet-latest'],
+  },
+  cheap: {
+    targets: ['ollama', 'openai/gpt-4o-mini', 'claude/claude-3-5-haiku-latest'],
+    policy: 'cheapest',
+  },
+  local: {
+    targets: ['ollama'],
+  },
+};
+
+/** What the router needs to know about providers to order targets */
+export interface LLMRouteSignals {
+  isRegistered(provider: string): boolean;
+  /** False while the provider's circuit is open or its health check fails */
+  isRoutable(provider: string): boolean;
+  /** Input plus output USD per million tokens, when known */
+  price(provider: string, model?: string): number | undefined;
+  /** Recent mean latency in milliseconds, when measured */
+  latency(provider: string): number | undefined;
+}
+
+/**
+ * Resolves model aliases to ordered provider/model targets. Targets of
+ * unregistered providers are dropped and unroutable ones moved last, after
+ * the policy has ordered them.
+ */
+export class ModelRouter {
+  private readonly aliases = new Map<
+    string,
+    { targets: LLMRouteTarget[]; policy?: LLMRoutingPolicy }
+  >();
+  private readonly turns = new Map<string, number>();
+  private defaultPolicy: LLMRoutingPolicy = 'ordered';
+
+  constructor(
+    private readonly signals: LLMRouteSignals,
+    aliases: LLMModelAliasTable = DEFAULT_MODEL_ALIASES
+  ) {
+    this.merge(aliases);
+  }
+
+  merge(aliases: LLMModelAliasTable) {
+    for (const [name, alias] of Object.entries(aliases)) {
+      if (!alias.targets?.length) {
+        throw new Error(`Model alias '${name}' needs at least one target`);
+      }
+      if (alias.policy) {
+        assertPolicy(alias.policy);
+      }
+      this.aliases.set(name, {
+        targets: alias.targets.map(toRouteTarget),
+        policy: alias.policy,
+      });
+      this.turns.delete(name);
+    }
+  }
+
+  setDefaultPolicy(policy: LLMRoutingPolicy) {
+    assertPolicy(policy);
+    this.defaultPolicy = policy;
+  }
+
+  has(name: string | undefined): name is string {
+    return !!name && this.aliases.has(name);
+  }
+
+  /** Configured aliases with targets in object form and effective policies */
+  getAliases(): Record<string, LLMResolvedModelAlias> {
+    return Object.fromEntries(
+      Array.from(this.aliases, ([name, alias]) => [
+        name,
+        { targets: alias.targets, policy: alias.policy ?? this.defaultPolicy },
+      ])
+    );
+  }
+
+  /**
+   * Targets of an alias in the order to try them, limited to `provider` when
+   * given. Throws when no registered provider serves the alias.
+   */
+  resolve(
+    name: string,
+    options: { provider?: string; policy?: LLMRoutingPolicy } = {}
+  ): LLMRouteTarget[] {
+    const alias = this.aliases.get(name);
+    const targets = (alias?.targets ?? []).filter(
+      (target) =>
+        this.signals.isRegistered(target.provider) &&
+        (!options.provider || target.provider === options.provider)
+    );
+    if (!targets.length) {
+      throw new Error(
+        options.provider
+          ? `Model alias '${name}' has no target on provider ${options.provider}`
+          : `No registered provider serves model alias '${name}'`
+      );
+    }
+
+    const ordered = this.order(
+      name,
+      targets,
+      options.policy ?? alias?.policy ?? this.defaultPolicy
+    );
+    return [
+      ...ordered.filter((target) => this.signals.isRoutable(target.provider)),
+      ...ordered.filter((target) => !this.signals.isRoutable(target.provider)),
+    ];
+  }
+
+  private order(
+    name: string,
+    targets: LLMRouteTarget[],
+    policy: LLMRoutingPolicy
+  ): LLMRouteTarget[] {
+    assertPolicy(policy);
+    switch (policy) {
+      case 'cheapest':
+        return sortBy(
+          targets,
+          (target) =>
+            this.signals.price(target.provider, target.model) ?? Infinity
+        );
+      case 'lowest-latency':
+        return sortBy(
+          targets,
+          (target) => this.signals.latency(target.provider) ?? -1
+        );
+      case 'round-robin': {
+        const turn = this.turns.get(name) ?? 0;
+        this.turns.set(name, turn + 1);
+        const start = turn % targets.length;
+        return [...targets.slice(start), ...targets.slice(0, start)];
+      }
+      case 'weighted':
+        return weightedShuffle(targets);
+      default:
+        return targets;
+    }
+  }
+}
+
+function assertPolicy(policy: string) {
+  if (!ROUTING_POLICIES.includes(policy as LLMRoutingPolicy)) {
+    const known = ROUTING_POLICIES.join(', ');
+    throw new Error(`Unknown routing policy '${policy}'; use one of ${known}`);
+  }
+}
+
+function toRouteTarget(target: LLMRouteTarget | string): LLMRouteTarget {
+  if (typeof target !== 'string') {
+    return target;
+  }
+  const slash = target.indexOf('/');
+  return slash > 0
+    ? { provider: target.slice(0, slash), model: target.slice(slash + 1) }
+    : { provider: target };
+}
+
+// Array.prototype.sort is stable, so ties keep the configured order
+function sortBy<T>(items: T[], key: (item: T) => number): T[] {
+  return items
+    .map((item) => ({ item, key: key(item) }))
+    .sort((a, b) => (a.key === b.key ? 0 : a.key - b.key))
+    .map(({ item }) => item);
+}
+
+/** Weighted random order without replacement */
+function weightedShuffle(targets: LLMRouteTarget[]): LLMRouteTarget[] {
+  const remaining = [...targets];
+  const ordered: LLMRouteTarget[] = [];
+
+  while (remaining.length) {
+    const total = remaining.reduce(
+      (sum, target) => sum + Math.max(target.weight ?? 1, 0),
+      0
+    );
+    let pick = Math.random() * total;
+    let index = remaining.findIndex((target) => {
+      pick -= Math.max(target.weight ?? 1, 0);
+      return pick < 0;
+    });
+    // Only zero weights are left
+    if (index < 0) {
+      index = 0;
+    }
+    ordered.push(...remaining.splice(index, 1));
+  }
+  return ordered;
+}
@@ -0,0 +1,38 @@
+import { Transform } from 'class-transformer';
+import { IsArray, IsDateString, IsIn, IsOptional } from 'class-validator';
+
+export const USAGE_REPORT_DIMENSIONS = [
+  'user',
+  'service',
+  'provider',
+  'model',
+  'day',
+] as const;
+
+export type UsageReportDimension = (typeof USAGE_REPORT_DIMENSIONS)[number];
+
+export class UsageReportQueryDto {
+  /** Comma-separated dimensions, e.g. `?groupBy=user,day` */
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((dimension) => dimension.trim())
+          .filter(Boolean)
+      : value
+  )
+  @IsArray()
+  @IsIn(USAGE_REPORT_DIMENSIONS, { each: true })
+  groupBy?: UsageReportDimension[];
+
+  /** Inclusive lower bound (ISO 8601) */
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  /** Exclusive upper bound (ISO 8601) */
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
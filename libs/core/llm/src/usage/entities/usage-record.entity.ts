@@ -0,0 +1,63 @@
+import {
+  Entity,
+  Column,
+  Index,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * One metered LLM call. Rows are append-only; quotas and reports aggregate
+ * them by user and time window.
+ */
+@Entity('llm_usage_records')
+@Index(['userId', 'createdAt'])
+export class UsageRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @CreateDateColumn({
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt!: Date;
+
+  @Column('uuid')
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  role?: string;
+
+  @Index()
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  service?: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  operation!: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider!: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  model?: string;
+
+  @Column({ type: 'integer', default: 0 })
+  promptTokens!: number;
+
+  @Column({ type: 'integer', default: 0 })
+  completionTokens!: number;
+
+  @Column({ type: 'integer', default: 0 })
+  totalTokens!: number;
+
+  /** Prompt template and version the request was rendered from */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  promptName?: string;
+
+  @Column({ type: 'integer', nullable: true })
+  promptVersion?: number;
+
+  /** In USD; null until a price is known for the model */
+  @Column({ type: 'decimal', precision: 12, scale: 6, nullable: true })
+  estimatedCost?: number;
+}
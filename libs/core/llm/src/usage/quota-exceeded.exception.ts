@@ -0,0 +1,25 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export class QuotaExceededException extends HttpException {
+  constructor(
+    public readonly period: QuotaPeriod,
+    public readonly limit: number,
+    public readonly used: number,
+    public readonly resetsAt: Date
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message: `The ${period} token quota of ${limit} has been used up`,
+        period,
+        limit,
+        used,
+        resetsAt: resetsAt.toISOString(),
+      },
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+}
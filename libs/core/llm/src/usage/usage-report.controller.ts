@@ -0,0 +1,37 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  JwtAuthGuard,
+  Roles,
+  RolesGuard,
+  UserRole,
+} from '@ai-solution/core/auth';
+import { UsageService, UsageReport } from './usage.service';
+import { UsageReportQueryDto } from './dto/usage-report.dto';
+
+/**
+ * Admin-only spend report. Registered only when `UsageModule.forRoot` is
+ * called with `enableReportController: true`.
+ */
+@Controller('admin/usage')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class UsageReportController {
+  constructor(private readonly usageService: UsageService) {}
+
+  @Get('report')
+  async getReport(@Query() query: UsageReportQueryDto): Promise<UsageReport> {
+    return this.usageService.getReport({
+      groupBy: query.groupBy,
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+    });
+  }
+}
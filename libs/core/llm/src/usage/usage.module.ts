@@ -0,0 +1,74 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UsageRecord } from './entities/usage-record.entity';
+import { UsageService } from './usage.service';
+import { UsageReportController } from './usage-report.controller';
+
+export interface UsageQuota {
+  dailyTokens?: number;
+  monthlyTokens?: number;
+}
+
+export interface UsageModuleOptions {
+  /** Quotas keyed by role, e.g. `{ user: { dailyTokens: 50000 }, admin: {} }` */
+  quotas?: Record<string, UsageQuota>;
+  /**
+   * Applies to roles without an entry in `quotas`. Defaults to
+   * LLM_DAILY_TOKEN_QUOTA / LLM_MONTHLY_TOKEN_QUOTA; unset means unlimited.
+   */
+  defaultQuota?: UsageQuota;
+  /** Exposes `GET /admin/usage/report` to users with the admin role */
+  enableReportController?: boolean;
+}
+
+@Module({})
+export class UsageModule {
+  static forRoot(options?: UsageModuleOptions): DynamicModule {
+    return {
+      module: UsageModule,
+      controllers: options?.enableReportController
+        ? [UsageReportController]
+        : [],
+      imports: [ConfigModule, TypeOrmModule.forFeature([UsageRecord])],
+      providers: [
+        UsageService,
+        {
+          provide: 'USAGE_OPTIONS',
+          useValue: options || {},
+        },
+      ],
+      exports: [UsageService],
+    };
+  }
+
+  static forRootAsync(options: {
+    imports?: any[];
+    useFactory?: (
+      ...args: any[]
+    ) => Promise<UsageModuleOptions> | UsageModuleOptions;
+    inject?: any[];
+    enableReportController?: boolean;
+  }): DynamicModule {
+    return {
+      module: UsageModule,
+      controllers: options.enableReportController
+        ? [UsageReportController]
+        : [],
+      imports: [
+        ConfigModule,
+        TypeOrmModule.forFeature([UsageRecord]),
+        ...(options.imports || []),
+      ],
+      providers: [
+        UsageService,
+        {
+          provide: 'USAGE_OPTIONS',
+          useFactory: options.useFactory || (() => ({})),
+          inject: options.inject || [],
+        },
+      ],
+      exports: [UsageService],
+    };
+  }
+}
@@ -0,0 +1,316 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { UsageService } from './usage.service';
+import { UsageRecord } from './entities/usage-record.entity';
+import { QuotaExceededException } from './quota-exceeded.exception';
+import { UsageModuleOptions } from './usage.module';
+import { LLMService } from '../llm.service';
+import { MockProvider } from '../providers/mock.provider';
+
+/** A chainable query builder whose raw results are set per test */
+function createQueryBuilder() {
+  const builder = {
+    select: jest.fn(),
+    addSelect: jest.fn(),
+    where: jest.fn(),
+    andWhere: jest.fn(),
+    addGroupBy: jest.fn(),
+    addOrderBy: jest.fn(),
+    getRawOne: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+  for (const method of [
+    'select',
+    'addSelect',
+    'where',
+    'andWhere',
+    'addGroupBy',
+    'addOrderBy',
+  ] as const) {
+    builder[method].mockReturnValue(builder);
+  }
+  return builder;
+}
+
+describe('UsageService', () => {
+  let service: UsageService;
+  let llmService: LLMService;
+  let builder: ReturnType<typeof createQueryBuilder>;
+  let env: Record<string, string>;
+  const repository = {
+    insert: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  function createService(options: UsageModuleOptions) {
+    service = new UsageService(
+      repository as unknown as Repository<UsageRecord>,
+      llmService,
+      { get: (key: string) => env[key] } as ConfigService,
+      options
+    );
+    service.onModuleInit();
+  }
+
+  /** Tokens used so far today and this month */
+  function used(daily: number, monthly: number) {
+    builder.getRawOne
+      .mockResolvedValueOnce({ total: String(daily) })
+      .mockResolvedValueOnce({ total: String(monthly) });
+  }
+
+  beforeEach(() => {
+    builder = createQueryBuilder();
+    repository.insert.mockReset();
+    repository.createQueryBuilder.mockReset().mockReturnValue(builder);
+    env = {};
+    llmService = new LLMService();
+    llmService.configure({
+      defaultProvider: 'mock',
+      fallbackProviders: [],
+      retryAttempts: 1,
+      retryDelay: 0,
+    });
+    createService({
+      quotas: {
+        user: { dailyTokens: 1000, monthlyTokens: 5000 },
+        admin: {},
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('checkQuota', () => {
+    it('should ignore requests without a user', async () => {
+      await service.checkQuota({ service: 'batch' });
+
+      expect(repository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should allow a user under both limits', async () => {
+      used(999, 4000);
+
+      await expect(
+        service.checkQuota({ userId: 'user-1', role: 'user' })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a user whose daily quota is used up', async () => {
+      used(1000, 4000);
+
+      const error = await service
+        .checkQuota({ userId: 'user-1', role: 'user' })
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(QuotaExceededException);
+      expect(error).toMatchObject({ period: 'daily', limit: 1000, used: 1000 });
+    });
+
+    it('should reject a user whose monthly quota is used up', async () => {
+      used(10, 5200);
+
+      await expect(
+        service.checkQuota({ userId: 'user-1', role: 'user' })
+      ).rejects.toMatchObject({ period: 'monthly', limit: 5000, used: 5200 });
+    });
+
+    it('should admit concurrent requests while under the limit', async () => {
+      // A soft limit: both pass the check and may together overrun it
+      used(900, 900);
+      used(900, 900);
+
+      await expect(
+        Promise.all([
+          service.checkQuota({ userId: 'user-1', role: 'user' }),
+          service.checkQuota({ userId: 'user-1', role: 'user' }),
+        ])
+      ).resolves.toEqual([undefined, undefined]);
+    });
+
+    it('should not limit a role with an empty quota', async () => {
+      used(1_000_000, 1_000_000);
+
+      await expect(
+        service.checkQuota({ userId: 'admin-1', role: 'admin' })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should fall back to the default quota, then to the environment', async () => {
+      createService({ defaultQuota: { dailyTokens: 100 } });
+      used(100, 100);
+      await expect(
+        service.checkQuota({ userId: 'user-1', role: 'moderator' })
+      ).rejects.toMatchObject({ period: 'daily', limit: 100 });
+
+      env['LLM_MONTHLY_TOKEN_QUOTA'] = '300';
+      createService({});
+      used(100, 300);
+      await expect(
+        service.checkQuota({ userId: 'user-1', role: 'moderator' })
+      ).rejects.toMatchObject({ period: 'monthly', limit: 300 });
+    });
+
+    it('should stop LLMService before the provider is called', async () => {
+      const provider = new MockProvider({ name: 'mock' });
+      llmService.registerProvider(provider);
+      used(1000, 1000);
+
+      await expect(
+        llmService.generateCompletion([{ role: 'user', content: 'hi' }], {
+          context: { userId: 'user-1', role: 'user' },
+        })
+      ).rejects.toBeInstanceOf(QuotaExceededException);
+      expect(provider.calls).toHaveLength(0);
+    });
+  });
+
+  describe('getUserUsage', () => {
+    it('should sum tokens since the start of the UTC day and month', async () => {
+      jest.useFakeTimers({ now: new Date('2026-03-31T22:30:00Z') });
+      used(120, 3400);
+
+      const usage = await service.getUserUsage('user-1', 'user');
+
+      expect(usage).toEqual({
+        daily: {
+          used: 120,
+          limit: 1000,
+          resetsAt: new Date('2026-04-01T00:00:00Z'),
+        },
+        monthly: {
+          used: 3400,
+          limit: 5000,
+          resetsAt: new Date('2026-04-01T00:00:00Z'),
+        },
+      });
+      expect(builder.andWhere.mock.calls).toEqual([
+        ['usage.createdAt >= :since', { since: new Date('2026-03-31') }],
+        ['usage.createdAt >= :since', { since: new Date('2026-03-01') }],
+      ]);
+    });
+  });
+
+  describe('record', () => {
+    it('should add a ledger entry for requests of a user', async () => {
+      await service.record(
+        {
+          userId: 'user-1',
+          role: 'user',
+          service: 'chat-service',
+          prompt: { name: 'chat.assistant', version: 2 },
+        },
+        {
+          operation: 'completion',
+          provider: 'openai',
+          model: 'gpt-4o-mini',
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+          estimatedCost: 0.00001,
+        }
+      );
+
+      expect(repository.insert).toHaveBeenCalledWith({
+        userId: 'user-1',
+        role: 'user',
+        service: 'chat-service',
+        operation: 'completion',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        promptTokens: 10,
+        completionTokens: 5,
+        totalTokens: 15,
+        estimatedCost: 0.00001,
+        promptName: 'chat.assistant',
+        promptVersion: 2,
+      });
+    });
+
+    it('should not record requests without a user', async () => {
+      await service.record(
+        { service: 'batch' },
+        { operation: 'embedding', provider: 'openai' }
+      );
+
+      expect(repository.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReport', () => {
+    it('should group by user by default and convert the sums to numbers', async () => {
+      builder.getRawMany.mockResolvedValue([
+        {
+          user: 'user-1',
+          requests: '2',
+          promptTokens: '30',
+          completionTokens: '10',
+          totalTokens: '40',
+          estimatedCost: '0.0000015',
+        },
+        {
+          user: 'user-2',
+          requests: '1',
+          promptTokens: '5',
+          completionTokens: '5',
+          totalTokens: '10',
+          estimatedCost: '0.0000021',
+        },
+      ]);
+
+      const report = await service.getReport();
+
+      expect(report).toEqual({
+        groupBy: ['user'],
+        from: undefined,
+        to: undefined,
+        rows: [
+          {
+            user: 'user-1',
+            requests: 2,
+            promptTokens: 30,
+            completionTokens: 10,
+            totalTokens: 40,
+            estimatedCost: 0.0000015,
+          },
+          {
+            user: 'user-2',
+            requests: 1,
+            promptTokens: 5,
+            completionTokens: 5,
+            totalTokens: 10,
+            estimatedCost: 0.0000021,
+          },
+        ],
+        totals: {
+          requests: 3,
+          promptTokens: 35,
+          completionTokens: 15,
+          totalTokens: 50,
+          estimatedCost: 0.000004,
+        },
+      });
+      expect(builder.addGroupBy).toHaveBeenCalledWith('usage.userId');
+    });
+
+    it('should group by each dimension once and limit the date range', async () => {
+      builder.getRawMany.mockResolvedValue([]);
+      const from = new Date('2026-03-01');
+      const to = new Date('2026-04-01');
+
+      const report = await service.getReport({
+        groupBy: ['day', 'model', 'day'],
+        from,
+        to,
+      });
+
+      expect(report.groupBy).toEqual(['day', 'model']);
+      expect(report.totals.requests).toBe(0);
+      expect(builder.addGroupBy).toHaveBeenCalledTimes(2);
+      expect(builder.andWhere.mock.calls).toEqual([
+        ['usage.createdAt >= :from', { from }],
+        ['usage.createdAt < :to', { to }],
+      ]);
+    });
+  });
+});
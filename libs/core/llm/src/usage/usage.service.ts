@@ -0,0 +1,245 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { LLMService } from '../llm.service';
+import {
+  LLMRequestContext,
+  LLMUsageEvent,
+  LLMUsageTracker,
+} from '../interfaces/usage-tracker.interface';
+import { UsageRecord } from './entities/usage-record.entity';
+import {
+  QuotaExceededException,
+  QuotaPeriod,
+} from './quota-exceeded.exception';
+import { UsageModuleOptions, UsageQuota } from './usage.module';
+import { UsageReportDimension } from './dto/usage-report.dto';
+
+export interface UsageWindow {
+  used: number;
+  limit?: number;
+  resetsAt: Date;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+export type UsageReportRow = Partial<
+  Record<UsageReportDimension, string | null>
+> &
+  UsageTotals;
+
+export interface UsageReport {
+  groupBy: UsageReportDimension[];
+  from?: Date;
+  to?: Date;
+  rows: UsageReportRow[];
+  totals: UsageTotals;
+}
+
+const REPORT_COLUMNS: Record<UsageReportDimension, string> = {
+  user: 'usage.userId',
+  service: 'usage.service',
+  provider: 'usage.provider',
+  model: 'usage.model',
+  day: `TO_CHAR(usage.createdAt AT TIME ZONE 'UTC', 'YYYY-MM-DD')`,
+};
+
+/**
+ * Ledger-backed usage tracker. Registers itself on LLMService so every call
+ * made with a user context is checked against the role's quota and recorded.
+ * Quota windows are calendar days and months in UTC.
+ */
+@Injectable()
+export class UsageService implements LLMUsageTracker, OnModuleInit {
+  constructor(
+    @InjectRepository(UsageRecord)
+    private usageRepository: Repository<UsageRecord>,
+    private llmService: LLMService,
+    private configService: ConfigService,
+    @Inject('USAGE_OPTIONS')
+    private options: UsageModuleOptions
+  ) {}
+
+  onModuleInit() {
+    this.llmService.setUsageTracker(this);
+  }
+
+  /**
+   * Rejects the request once the used tokens reach a limit. The quota is a
+   * soft limit: a request's tokens are only known once it finishes, so the
+   * check and `record` are not atomic, and requests admitted under the limit
+   * (including concurrent ones) may overrun it by their own usage. Nothing
+   * is reserved up front; later requests are rejected until the window
+   * resets.
+   */
+  async checkQuota(context: LLMRequestContext): Promise<void> {
+    if (!context.userId) return;
+
+    const usage = await this.getUserUsage(context.userId, context.role);
+    for (const period of ['daily', 'monthly'] as QuotaPeriod[]) {
+      const { used, limit, resetsAt } = usage[period];
+      if (limit !== undefined && used >= limit) {
+        throw new QuotaExceededException(period, limit, used, resetsAt);
+      }
+    }
+  }
+
+  async record(
+    context: LLMRequestContext,
+    event: LLMUsageEvent
+  ): Promise<void> {
+    if (!context.userId) return;
+
+    await this.usageRepository.insert({
+      userId: context.userId,
+      role: context.role,
+      service: context.service,
+      operation: event.operation,
+      provider: event.provider,
+      model: event.model,
+      promptTokens: event.usage?.promptTokens || 0,
+      completionTokens: event.usage?.completionTokens || 0,
+      totalTokens: event.usage?.totalTokens || 0,
+      estimatedCost: event.estimatedCost,
+      promptName: context.prompt?.name,
+      promptVersion: context.prompt?.version,
+    });
+  }
+
+  /** Tokens used in the current day and month against the role's limits. */
+  async getUserUsage(
+    userId: string,
+    role?: string
+  ): Promise<Record<QuotaPeriod, UsageWindow>> {
+    const quota = this.getQuota(role);
+    const now = new Date();
+    const dayStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    );
+    const monthStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+    );
+
+    return {
+      daily: {
+        used: await this.sumTokens(userId, dayStart),
+        limit: quota.dailyTokens,
+        resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+      },
+      monthly: {
+        used: await this.sumTokens(userId, monthStart),
+        limit: quota.monthlyTokens,
+        resetsAt: new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+        ),
+      },
+    };
+  }
+
+  /**
+   * Aggregates the ledger by the given dimensions (default: per user) within
+   * `[from, to)`. Days are UTC calendar days.
+   */
+  async getReport(
+    options: {
+      groupBy?: UsageReportDimension[];
+      from?: Date;
+      to?: Date;
+    } = {}
+  ): Promise<UsageReport> {
+    const groupBy: UsageReportDimension[] = options.groupBy?.length
+      ? [...new Set(options.groupBy)]
+      : ['user'];
+
+    const query = this.usageRepository
+      .createQueryBuilder('usage')
+      .select('COUNT(*)', 'requests')
+      .addSelect('COALESCE(SUM(usage.promptTokens), 0)', 'promptTokens')
+      .addSelect('COALESCE(SUM(usage.completionTokens), 0)', 'completionTokens')
+      .addSelect('COALESCE(SUM(usage.totalTokens), 0)', 'totalTokens')
+      .addSelect('COALESCE(SUM(usage.estimatedCost), 0)', 'estimatedCost');
+
+    for (const dimension of groupBy) {
+      query
+        .addSelect(REPORT_COLUMNS[dimension], dimension)
+        .addGroupBy(REPORT_COLUMNS[dimension])
+        .addOrderBy(REPORT_COLUMNS[dimension], 'ASC');
+    }
+    if (options.from) {
+      query.andWhere('usage.createdAt >= :from', { from: options.from });
+    }
+    if (options.to) {
+      query.andWhere('usage.createdAt < :to', { to: options.to });
+    }
+
+    const raw = await query.getRawMany<
+      Record<keyof UsageTotals, string> &
+        Record<UsageReportDimension, string | null>
+    >();
+    const totals: UsageTotals = {
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+    };
+
+    // Postgres returns SUM/COUNT as strings
+    const rows = raw.map((row) => {
+      const result: UsageReportRow = {
+        requests: Number(row.requests),
+        promptTokens: Number(row.promptTokens),
+        completionTokens: Number(row.completionTokens),
+        totalTokens: Number(row.totalTokens),
+        estimatedCost: Number(row.estimatedCost),
+      };
+      for (const dimension of groupBy) {
+        result[dimension] = row[dimension];
+      }
+      for (const key of Object.keys(totals) as (keyof UsageTotals)[]) {
+        totals[key] += result[key];
+      }
+      return result;
+    });
+    totals.estimatedCost = Math.round(totals.estimatedCost * 1e6) / 1e6;
+
+    return { groupBy, from: options.from, to: options.to, rows, totals };
+  }
+
+  private getQuota(role?: string): UsageQuota {
+    const roleQuota = role ? this.options.quotas?.[role] : undefined;
+    if (roleQuota) {
+      return roleQuota;
+    }
+
+    return (
+      this.options.defaultQuota || {
+        dailyTokens: this.getLimitFromEnv('LLM_DAILY_TOKEN_QUOTA'),
+        monthlyTokens: this.getLimitFromEnv('LLM_MONTHLY_TOKEN_QUOTA'),
+      }
+    );
+  }
+
+  private getLimitFromEnv(key: string): number | undefined {
+    const value = this.configService.get<string>(key);
+    return value ? Number(value) : undefined;
+  }
+
+  private async sumTokens(userId: string, since: Date): Promise<number> {
+    const result = await this.usageRepository
+      .createQueryBuilder('usage')
+      .select('COALESCE(SUM(usage.totalTokens), 0)', 'total')
+      .where('usage.userId = :userId', { userId })
+      .andWhere('usage.createdAt >= :since', { since })
+      .getRawOne<{ total: string }>();
+
+    return Number(result?.total || 0);
+  }
+}
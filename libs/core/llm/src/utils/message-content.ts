@@ -0,0 +1,25 @@
+import { LLMImagePart, LLMMessage } from '../interfaces/llm-provider.interface';
+
+/** Returns the text of a message, joining the text parts of multimodal content. */
+export function getMessageText(content: LLMMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+export function getMessageImages(
+  content: LLMMessage['content']
+): LLMImagePart[] {
+  if (typeof content === 'string') {
+    return [];
+  }
+  return content.filter((part): part is LLMImagePart => part.type === 'image');
+}
+
+export function hasImages(messages: LLMMessage[]): boolean {
+  return messages.some((msg) => getMessageImages(msg.content).length > 0);
+}
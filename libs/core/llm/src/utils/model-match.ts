@@ -0,0 +1,19 @@
+/**
+ * Finds the entry for a model in a table keyed by model name or model name
+ * prefix. Providers report dated model ids (e.g. `gpt-4o-mini-2024-07-18`),
+ * so the longest matching prefix wins; '*' matches any model.
+ */
+export function matchModel<T>(
+  entries: Record<string, T> | undefined,
+  model?: string
+): T | undefined {
+  if (!entries) {
+    return undefined;
+  }
+
+  const match = Object.keys(entries)
+    .filter((prefix) => prefix !== '*' && model?.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return entries[match ?? '*'];
+}
@@ -0,0 +1,53 @@
+import { LLMMessage } from '../interfaces/llm-provider.interface';
+import { LLMPromptTemplate } from '../interfaces/prompt-source.interface';
+import { PromptTemplateError } from '../errors/prompt-template.error';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** Names of the `{{variable}}` placeholders in `text`, in order of first use. */
+export function extractPromptVariables(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+}
+
+/**
+ * Substitutes `{{variable}}` placeholders in every message. Values fall back
+ * to the variable's default; objects are inserted as JSON. Placeholders that
+ * are not declared variables are left as they are.
+ */
+export function renderPromptTemplate(
+  template: LLMPromptTemplate,
+  variables: Record<string, unknown> = {}
+): LLMMessage[] {
+  const values = new Map<string, string>();
+  const missing: string[] = [];
+
+  for (const variable of template.variables) {
+    const value = variables[variable.name] ?? variable.default;
+    if (value === undefined || value === null) {
+      missing.push(variable.name);
+    } else {
+      values.set(
+        variable.name,
+        typeof value === 'object' ? JSON.stringify(value) : String(value)
+      );
+    }
+  }
+
+  if (missing.length) {
+    throw new PromptTemplateError(
+      `Prompt template ${template.name} v${
+        template.version
+      } is missing variables: ${missing.join(', ')}`,
+      template.name,
+      missing
+    );
+  }
+
+  return template.messages.map((message) => ({
+    role: message.role,
+    content: message.content.replace(
+      PLACEHOLDER,
+      (placeholder, name: string) => values.get(name) ?? placeholder
+    ),
+  }));
+}
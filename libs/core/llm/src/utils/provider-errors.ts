@@ -0,0 +1,75 @@
+import {
+  AuthenticationError,
+  ContentFilterError,
+  ContextLengthError,
+  InvalidRequestError,
+  LLMProviderError,
+  ProviderUnavailableError,
+  RateLimitError,
+  TimeoutError,
+} from '../errors/llm-provider.error';
+
+// Providers only signal these through the error code or message of a 400
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|maximum context|prompt is too long|too many tokens|exceeds? (the )?context limit/i;
+const CONTENT_FILTER_PATTERN =
+  /content[_ ]filter|content management policy|content_policy|safety system/i;
+
+/** Maps an upstream HTTP error to the matching LLMProviderError subclass. */
+export function providerErrorFromStatus(
+  provider: string,
+  status: number | undefined,
+  message: string,
+  options: { code?: string; retryAfterMs?: number; cause?: unknown } = {}
+): LLMProviderError {
+  const { code, retryAfterMs, cause } = options;
+  const detail = `${code || ''} ${message}`;
+
+  if (status === 429) {
+    return new RateLimitError(message, provider, retryAfterMs, cause);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, provider, status, cause);
+  }
+  if (status === 408) {
+    return new TimeoutError(message, provider, cause);
+  }
+  if (status && status >= 400 && status < 500) {
+    if (status === 413 || CONTEXT_LENGTH_PATTERN.test(detail)) {
+      return new ContextLengthError(message, provider, status, cause);
+    }
+    if (CONTENT_FILTER_PATTERN.test(detail)) {
+      return new ContentFilterError(message, provider, status, cause);
+    }
+    return new InvalidRequestError(message, provider, status, cause);
+  }
+
+  // 5xx, Anthropic's 529 overloaded, or no response at all
+  return new ProviderUnavailableError(message, provider, status, cause);
+}
+
+/**
+ * Milliseconds to wait according to `retry-after-ms` (OpenAI) or
+ * `retry-after` (seconds or an HTTP date).
+ */
+export function parseRetryAfter(
+  headers?: { get(name: string): string | null } | null
+): number | undefined {
+  const milliseconds = Number(headers?.get('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const value = headers?.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
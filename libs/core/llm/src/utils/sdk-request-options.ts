@@ -0,0 +1,13 @@
+import { LLMProviderOptions } from '../interfaces/llm-provider.interface';
+
+/**
+ * Per-request options for the OpenAI and Anthropic SDKs. Both reject an
+ * explicit `timeout: undefined`, so the key is left out when no timeout is set.
+ */
+export function sdkRequestOptions(
+  options: Pick<LLMProviderOptions, 'signal' | 'timeoutMs'>
+): { signal?: AbortSignal; timeout?: number } {
+  return options.timeoutMs === undefined
+    ? { signal: options.signal }
+    : { signal: options.signal, timeout: options.timeoutMs };
+}
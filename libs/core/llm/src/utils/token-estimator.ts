@@ -0,0 +1,36 @@
+import { LLMMessage } from '../interfaces/llm-provider.interface';
+import { getMessageImages, getMessageText } from './message-content';
+
+// Hangul, kana and CJK ideographs take about a token per character
+const WIDE_CHARACTERS =
+  /[\u1100-\u11ff\u3040-\u30ff\u3130-\u318f\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+// Role markers and separators the chat format adds around every message
+const MESSAGE_OVERHEAD = 4;
+// Flat allowance for one image; actual cost depends on size and provider
+const IMAGE_TOKENS = 1000;
+
+/**
+ * Rough token count without a tokenizer: four characters per token for
+ * Latin text, one per character for Korean, Japanese and Chinese. Errs on
+ * the high side so budgets keep some headroom.
+ */
+export function estimateTokens(text: string): number {
+  const wide = text.match(WIDE_CHARACTERS)?.length ?? 0;
+  return Math.ceil(wide + (text.length - wide) / 4);
+}
+
+export function estimateMessageTokens(message: LLMMessage): number {
+  return (
+    MESSAGE_OVERHEAD +
+    estimateTokens(getMessageText(message.content)) +
+    getMessageImages(message.content).length * IMAGE_TOKENS +
+    (message.toolCalls ? estimateTokens(JSON.stringify(message.toolCalls)) : 0)
+  );
+}
+
+export function estimatePromptTokens(messages: LLMMessage[]): number {
+  return messages.reduce(
+    (total, message) => total + estimateMessageTokens(message),
+    0
+  );
+}
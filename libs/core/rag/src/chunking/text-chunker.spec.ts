@@ -0,0 +1,54 @@
+import { chunkText } from './text-chunker';
+
+describe('chunkText', () => {
+  const text = Array.from(
+    { length: 6 },
+    (_, i) => `Sentence number ${i}.`
+  ).join(' ');
+
+  it('should return short text as a single chunk', () => {
+    expect(chunkText('  Hello world.  ')).toEqual(['Hello world.']);
+  });
+
+  it('should repeat the end of the previous chunk', () => {
+    expect(chunkText(text, { chunkSize: 40, chunkOverlap: 10 })).toEqual([
+      'Sentence number 0. Sentence number 1.',
+      'number 1. Sentence number 2.',
+      'number 2. Sentence number 3.',
+      'number 3. Sentence number 4.',
+      'number 4. Sentence number 5.',
+    ]);
+  });
+
+  it('should not repeat anything with overlap 0', () => {
+    const chunks = chunkText(text, { chunkSize: 40, chunkOverlap: 0 });
+
+    expect(chunks).toEqual([
+      'Sentence number 0. Sentence number 1.',
+      'Sentence number 2. Sentence number 3.',
+      'Sentence number 4. Sentence number 5.',
+    ]);
+    expect(chunks.join(' ')).toBe(text);
+  });
+
+  it.each([5, 15, 30])(
+    'should keep chunks within chunkSize with overlap %i',
+    (chunkOverlap) => {
+      // Words of uneven length, some nearly as long as a chunk
+      const words = Array.from({ length: 30 }, (_, i) =>
+        'x'.repeat(1 + ((i * 7) % 38))
+      ).join(' ');
+
+      const chunks = chunkText(words, { chunkSize: 40, chunkOverlap });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(40));
+    }
+  );
+
+  it('should reject an overlap as long as the chunk', () => {
+    expect(() => chunkText(text, { chunkSize: 10, chunkOverlap: 10 })).toThrow(
+      'chunkOverlap must be smaller than chunkSize'
+    );
+  });
+});
@@ -0,0 +1,64 @@
+export interface ChunkOptions {
+  /** Maximum chunk length in characters */
+  chunkSize?: number;
+  /** Characters repeated from the end of the previous chunk (at most) */
+  chunkOverlap?: number;
+}
+
+// Tried in order: paragraphs, lines, sentences, words
+const SEPARATORS = ['\n\n', '\n', '. ', ' '];
+
+/**
+ * Splits text into chunks of at most `chunkSize` characters, preferring to
+ * break at paragraph, line, sentence and word boundaries in that order.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = options.chunkSize ?? 1000;
+  const chunkOverlap = options.chunkOverlap ?? 200;
+
+  if (chunkOverlap >= chunkSize) {
+    throw new Error('chunkOverlap must be smaller than chunkSize');
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of splitPieces(text.trim(), chunkSize)) {
+    if (current && current.length + piece.length > chunkSize) {
+      chunks.push(current.trim());
+      // Shorten the overlap so that it and the next piece fit in one chunk
+      const overlap = Math.min(chunkOverlap, chunkSize - piece.length);
+      current = overlap > 0 ? current.slice(-overlap) : '';
+    }
+    current += piece;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+}
+
+function splitPieces(text: string, chunkSize: number, level = 0): string[] {
+  if (text.length <= chunkSize) {
+    return [text];
+  }
+
+  const separator = SEPARATORS[level];
+  if (separator === undefined) {
+    // No boundary left to break on, so cut hard
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += chunkSize) {
+      pieces.push(text.slice(i, i + chunkSize));
+    }
+    return pieces;
+  }
+
+  return text
+    .split(separator)
+    .map((part, index, parts) =>
+      index < parts.length - 1 ? part + separator : part
+    )
+    .flatMap((part) => splitPieces(part, chunkSize, level + 1));
+}
@@ -0,0 +1,6 @@
+export * from './rag.module';
+export * from './rag.service';
+export * from './interfaces/vector-store.interface';
+export * from './chunking/text-chunker';
+export * from './stores/in-memory-vector.store';
+export * from './stores/pg-vector.store';
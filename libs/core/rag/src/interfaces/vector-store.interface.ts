@@ -0,0 +1,47 @@
+export type VectorMetadata = Record<string, string | number | boolean | null>;
+
+export interface VectorChunk {
+  id: string;
+  collection: string;
+  /** Id of the source document the chunk was cut from */
+  documentId: string;
+  /** Position of the chunk within its document */
+  chunkIndex: number;
+  content: string;
+  metadata: VectorMetadata;
+  embedding: number[];
+}
+
+export interface VectorSearchOptions {
+  topK?: number;
+  /** Exact-match filter on chunk metadata, e.g. `{ lang: 'ko' }` */
+  filter?: VectorMetadata;
+  /** Drops results with a cosine similarity below this value */
+  minScore?: number;
+}
+
+export interface VectorSearchResult {
+  chunk: Omit<VectorChunk, 'embedding'>;
+  /** Cosine similarity, 1 meaning identical direction */
+  score: number;
+}
+
+export interface VectorStore {
+  upsert(chunks: VectorChunk[]): Promise<void>;
+  search(
+    collection: string,
+    embedding: number[],
+    options?: VectorSearchOptions
+  ): Promise<VectorSearchResult[]>;
+  /**
+   * Replaces all chunks of a document with `chunks`, atomically where the
+   * store supports it, so readers never see the document half-ingested
+   */
+  replaceDocument(
+    collection: string,
+    documentId: string,
+    chunks: VectorChunk[]
+  ): Promise<void>;
+  deleteDocument(collection: string, documentId: string): Promise<void>;
+  deleteCollection(collection: string): Promise<void>;
+}
@@ -0,0 +1,92 @@
+import { DynamicModule, Module, Global, Provider } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { DataSource } from 'typeorm';
+import { RagService, VECTOR_STORE } from './rag.service';
+import { VectorStore } from './interfaces/vector-store.interface';
+import { InMemoryVectorStore } from './stores/in-memory-vector.store';
+import { PgVectorStore } from './stores/pg-vector.store';
+
+export interface RagModuleOptions {
+  /** Defaults to pgvector, which requires DatabaseModule to be imported */
+  store?: 'pgvector' | 'memory' | VectorStore;
+  /** Table used by the pgvector store */
+  tableName?: string;
+  /**
+   * Dimension of the pgvector embedding column (default 1536, matching
+   * text-embedding-3-small); must match the embedding model
+   */
+  dimensions?: number;
+  chunkSize?: number;
+  chunkOverlap?: number;
+  /** Embedding provider and model; ingest and retrieval must use the same */
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  /** Chunks retrieved per query unless overridden per call */
+  topK?: number;
+}
+
+@Global()
+@Module({})
+export class RagModule {
+  static forRoot(options?: RagModuleOptions): DynamicModule {
+    return {
+      module: RagModule,
+      providers: [
+        RagService,
+        {
+          provide: 'RAG_OPTIONS',
+          useValue: options || {},
+        },
+        this.createStoreProvider(),
+      ],
+      exports: [RagService, VECTOR_STORE],
+    };
+  }
+
+  static forRootAsync(options: {
+    imports?: any[];
+    useFactory?: (
+      ...args: any[]
+    ) => Promise<RagModuleOptions> | RagModuleOptions;
+    inject?: any[];
+  }): DynamicModule {
+    return {
+      module: RagModule,
+      imports: options.imports || [],
+      providers: [
+        RagService,
+        {
+          provide: 'RAG_OPTIONS',
+          useFactory: options.useFactory || (() => ({})),
+          inject: options.inject || [],
+        },
+        this.createStoreProvider(),
+      ],
+      exports: [RagService, VECTOR_STORE],
+    };
+  }
+
+  private static createStoreProvider(): Provider {
+    return {
+      provide: VECTOR_STORE,
+      useFactory: (ragOptions: RagModuleOptions, moduleRef: ModuleRef) => {
+        const store = ragOptions.store || 'pgvector';
+
+        if (store === 'memory') {
+          return new InMemoryVectorStore();
+        }
+        if (store === 'pgvector') {
+          // Resolved lazily so the memory store works without DatabaseModule
+          const dataSource = moduleRef.get(DataSource, { strict: false });
+          return new PgVectorStore(
+            dataSource,
+            ragOptions.tableName,
+            ragOptions.dimensions
+          );
+        }
+        return store;
+      },
+      inject: ['RAG_OPTIONS', ModuleRef],
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import { Test } from '@nestjs/testing';
+import {
+  EmbeddingProvider,
+  EmbeddingResponse,
+  LLMService,
+  MockProvider,
+} from '@ai-solution/core/llm';
+import { RagService, VECTOR_STORE } from './rag.service';
+import { InMemoryVectorStore } from './stores/in-memory-vector.store';
+
+const VOCABULARY = ['cat', 'dog', 'fish', 'bird'];
+
+/** Embeds a text as the count of each vocabulary word in it */
+class KeywordEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'keywords';
+  readonly calls: string[][] = [];
+
+  async isAvailable() {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResponse> {
+    this.calls.push(texts);
+    return {
+      embeddings: texts.map((text) =>
+        VOCABULARY.map((word) => text.toLowerCase().split(word).length - 1)
+      ),
+      model: 'keywords-v1',
+      dimensions: VOCABULARY.length,
+      provider: this.name,
+    };
+  }
+}
+
+describe('RagService', () => {
+  let service: RagService;
+  let store: InMemoryVectorStore;
+  let embedder: KeywordEmbeddingProvider;
+  let chat: MockProvider;
+
+  beforeEach(async () => {
+    embedder = new KeywordEmbeddingProvider();
+    chat = new MockProvider({ name: 'mock', responses: ['Cats purr [1].'] });
+    const llmService = new LLMService();
+    llmService.configure({
+      defaultProvider: 'mock',
+      fallbackProviders: [],
+      retryAttempts: 1,
+      retryDelay: 0,
+    });
+    llmService.registerProvider(chat);
+    llmService.registerEmbeddingProvider(embedder);
+    store = new InMemoryVectorStore();
+
+    const app = await Test.createTestingModule({
+      providers: [
+        RagService,
+        { provide: LLMService, useValue: llmService },
+        { provide: VECTOR_STORE, useValue: store },
+        {
+          provide: 'RAG_OPTIONS',
+          useValue: {
+            embeddingProvider: 'keywords',
+            chunkSize: 40,
+            chunkOverlap: 0,
+            topK: 2,
+          },
+        },
+      ],
+    }).compile();
+
+    service = app.get<RagService>(RagService);
+  });
+
+  describe('ingest', () => {
+    it('should chunk, embed in one call and store every document', async () => {
+      const results = await service.ingest('pets', [
+        {
+          id: 'cats',
+          content: 'The cat sleeps all day. A cat purrs when happy.',
+          metadata: { lang: 'en' },
+        },
+        { id: 'dogs', content: 'The dog fetches the ball.' },
+      ]);
+
+      expect(results).toEqual([
+        { documentId: 'cats', chunks: 2 },
+        { documentId: 'dogs', chunks: 1 },
+      ]);
+      expect(embedder.calls).toEqual([
+        [
+          'The cat sleeps all day.',
+          'A cat purrs when happy.',
+          'The dog fetches the ball.',
+        ],
+      ]);
+      const [top] = await store.search('pets', [1, 0, 0, 0]);
+      expect(top.chunk).toMatchObject({
+        documentId: 'cats',
+        metadata: { lang: 'en' },
+      });
+    });
+
+    it('should assign an id to documents without one', async () => {
+      const [result] = await service.ingest('pets', [{ content: 'A fish.' }]);
+
+      expect(result.documentId).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should not embed anything for empty documents', async () => {
+      const results = await service.ingest('pets', [
+        { id: 'empty', content: '   ' },
+      ]);
+
+      expect(results).toEqual([{ documentId: 'empty', chunks: 0 }]);
+      expect(embedder.calls).toHaveLength(0);
+    });
+
+    it('should replace the chunks of a document ingested again', async () => {
+      await service.ingest('pets', [
+        { id: 'notes', content: 'The cat sleeps. The cat eats.' },
+      ]);
+
+      await service.ingest('pets', [{ id: 'notes', content: 'A bird sings.' }]);
+
+      const results = await service.retrieve('cat bird', 'pets', { topK: 5 });
+      expect(results.map((result) => result.chunk.content)).toEqual([
+        'A bird sings.',
+      ]);
+    });
+
+    it('should keep the stored chunks when embedding fails', async () => {
+      await service.ingest('pets', [{ id: 'notes', content: 'The cat.' }]);
+      jest
+        .spyOn(embedder, 'embed')
+        .mockRejectedValueOnce(new Error('embedding failed'));
+
+      await expect(
+        service.ingest('pets', [{ id: 'notes', content: 'The dog.' }])
+      ).rejects.toThrow('embedding failed');
+
+      const [result] = await service.retrieve('cat', 'pets');
+      expect(result.chunk.content).toBe('The cat.');
+    });
+  });
+
+  describe('retrieve', () => {
+    beforeEach(async () => {
+      await service.ingest('pets', [
+        { id: 'cats', content: 'A cat sleeps all day long. A cat and a dog.' },
+        { id: 'fish', content: 'A fish swims.', metadata: { lang: 'en' } },
+      ]);
+      await service.ingest('birds', [{ id: 'birds', content: 'A cat bird.' }]);
+    });
+
+    it('should return the closest chunks of the collection up to topK', async () => {
+      const results = await service.retrieve('cat', 'pets');
+
+      expect(results.map((result) => result.chunk.content)).toEqual([
+        'A cat sleeps all day long.',
+        'A cat and a dog.',
+      ]);
+      expect(results[0].score).toBeCloseTo(1);
+    });
+
+    it('should pass search options through to the store', async () => {
+      const results = await service.retrieve('cat fish', 'pets', {
+        topK: 5,
+        filter: { lang: 'en' },
+      });
+
+      expect(results.map((result) => result.chunk.documentId)).toEqual([
+        'fish',
+      ]);
+    });
+  });
+
+  describe('answer', () => {
+    it('should number the retrieved chunks and return them as citations', async () => {
+      await service.ingest('pets', [{ id: 'cats', content: 'A cat purrs.' }]);
+
+      const answer = await service.answer('Why do cats purr?', 'pets');
+
+      expect(answer).toMatchObject({
+        answer: 'Cats purr [1].',
+        provider: 'mock',
+        citations: [{ index: 1, documentId: 'cats', content: 'A cat purrs.' }],
+      });
+      const [system, user] = chat.calls[0].messages;
+      expect(system.content).toContain('Sources:\n[1] A cat purrs.');
+      expect(user).toEqual({ role: 'user', content: 'Why do cats purr?' });
+    });
+  });
+});
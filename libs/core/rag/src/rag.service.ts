@@ -0,0 +1,223 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  LLMService,
+  LLMMessage,
+  LLMRequestContext,
+  LLMRequestOptions,
+  LLMUsage,
+} from '@ai-solution/core/llm';
+import {
+  VectorChunk,
+  VectorMetadata,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from './interfaces/vector-store.interface';
+import { chunkText } from './chunking/text-chunker';
+import { RagModuleOptions } from './rag.module';
+
+export const VECTOR_STORE = 'VECTOR_STORE';
+
+const DEFAULT_SYSTEM_PROMPT =
+  'Answer the question using only the numbered sources below. ' +
+  'Cite every source you rely on by its number in square brackets, e.g. [1]. ' +
+  'If the sources do not contain the answer, say that you do not know.';
+
+export interface RagDocument {
+  /** Stable id; ingesting the same id again replaces its chunks */
+  id?: string;
+  content: string;
+  metadata?: VectorMetadata;
+}
+
+export interface RagIngestResult {
+  documentId: string;
+  chunks: number;
+}
+
+export interface RagCitation {
+  /** Number the model uses to cite this source, e.g. [1] */
+  index: number;
+  documentId: string;
+  chunkId: string;
+  content: string;
+  metadata: VectorMetadata;
+  score: number;
+}
+
+export interface RagAnswer {
+  answer: string;
+  citations: RagCitation[];
+  usage?: LLMUsage;
+  provider: string;
+}
+
+export type RagRetrieveOptions = VectorSearchOptions & {
+  /** Attributes the query embedding to a user for usage metering */
+  context?: LLMRequestContext;
+};
+
+export type RagAnswerOptions = VectorSearchOptions &
+  Omit<LLMRequestOptions, 'stream' | 'tools' | 'toolChoice'> & {
+    systemPrompt?: string;
+  };
+
+@Injectable()
+export class RagService {
+  private readonly logger = new Logger(RagService.name);
+
+  constructor(
+    private readonly llmService: LLMService,
+    @Inject(VECTOR_STORE)
+    private readonly vectorStore: VectorStore,
+    @Inject('RAG_OPTIONS')
+    private readonly options: RagModuleOptions
+  ) {}
+
+  /**
+   * Chunks, embeds and stores the documents. Chunks of all documents are
+   * embedded in one call so LLMService can batch them, and stored chunks are
+   * only replaced once embedding has succeeded.
+   */
+  async ingest(
+    collection: string,
+    documents: RagDocument[],
+    context?: LLMRequestContext
+  ): Promise<RagIngestResult[]> {
+    const prepared = documents.map((document) => ({
+      documentId: document.id || randomUUID(),
+      metadata: document.metadata || {},
+      texts: chunkText(document.content, {
+        chunkSize: this.options.chunkSize,
+        chunkOverlap: this.options.chunkOverlap,
+      }),
+    }));
+
+    const texts = prepared.flatMap((document) => document.texts);
+    if (!texts.length) {
+      return prepared.map(({ documentId }) => ({ documentId, chunks: 0 }));
+    }
+
+    const { embeddings } = await this.llmService.embed(texts, {
+      provider: this.options.embeddingProvider,
+      model: this.options.embeddingModel,
+      context,
+    });
+
+    let offset = 0;
+    for (const document of prepared) {
+      const chunks: VectorChunk[] = document.texts.map((content, index) => ({
+        id: randomUUID(),
+        collection,
+        documentId: document.documentId,
+        chunkIndex: index,
+        content,
+        metadata: document.metadata,
+        embedding: embeddings[offset + index],
+      }));
+      offset += chunks.length;
+
+      await this.vectorStore.replaceDocument(
+        collection,
+        document.documentId,
+        chunks
+      );
+    }
+
+    this.logger.log(
+      `Ingested ${documents.length} documents (${texts.length} chunks) into ${collection}`
+    );
+
+    return prepared.map(({ documentId, texts }) => ({
+      documentId,
+      chunks: texts.length,
+    }));
+  }
+
+  async retrieve(
+    query: string,
+    collection: string,
+    options: RagRetrieveOptions = {}
+  ): Promise<VectorSearchResult[]> {
+    const { context, ...searchOptions } = options;
+    const {
+      embeddings: [embedding],
+    } = await this.llmService.embed([query], {
+      provider: this.options.embeddingProvider,
+      model: this.options.embeddingModel,
+      context,
+    });
+
+    return this.vectorStore.search(collection, embedding, {
+      topK: this.options.topK,
+      ...searchOptions,
+    });
+  }
+
+  /**
+   * Answers the question from the top matching chunks of the collection. The
+   * chunks are numbered in the prompt and returned as citations, so `[n]` in
+   * the answer refers to `citations[n - 1]`.
+   */
+  async answer(
+    question: string,
+    collection: string,
+    options: RagAnswerOptions = {}
+  ): Promise<RagAnswer> {
+    const { topK, filter, minScore, systemPrompt, ...completionOptions } =
+      options;
+
+    const results = await this.retrieve(question, collection, {
+      topK,
+      filter,
+      minScore,
+      context: completionOptions.context,
+    });
+
+    const citations: RagCitation[] = results.map(({ chunk, score }, i) => ({
+      index: i + 1,
+      documentId: chunk.documentId,
+      chunkId: chunk.id,
+      content: chunk.content,
+      metadata: chunk.metadata,
+      score,
+    }));
+
+    const sources = citations.length
+      ? citations
+          .map((citation) => `[${citation.index}] ${citation.content}`)
+          .join('\n\n')
+      : '(no sources found)';
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `${
+          systemPrompt || DEFAULT_SYSTEM_PROMPT
+        }\n\nSources:\n${sources}`,
+      },
+      { role: 'user', content: question },
+    ];
+
+    const response = await this.llmService.generateCompletion(
+      messages,
+      completionOptions
+    );
+
+    return {
+      answer: response.content,
+      citations,
+      usage: response.usage,
+      provider: response.provider,
+    };
+  }
+
+  async deleteDocument(collection: string, documentId: string): Promise<void> {
+    await this.vectorStore.deleteDocument(collection, documentId);
+  }
+
+  async deleteCollection(collection: string): Promise<void> {
+    await this.vectorStore.deleteCollection(collection);
+  }
+}
@@ -0,0 +1,87 @@
+import { InMemoryVectorStore } from './in-memory-vector.store';
+import { VectorChunk } from '../interfaces/vector-store.interface';
+
+describe('InMemoryVectorStore', () => {
+  let store: InMemoryVectorStore;
+
+  const chunk = (
+    id: string,
+    embedding: number[],
+    overrides: Partial<VectorChunk> = {}
+  ): VectorChunk => ({
+    id,
+    collection: 'docs',
+    documentId: 'guide',
+    chunkIndex: 0,
+    content: id,
+    metadata: {},
+    embedding,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    store = new InMemoryVectorStore();
+    await store.upsert([
+      chunk('east', [1, 0]),
+      chunk('north-east', [1, 1], { metadata: { lang: 'ko' } }),
+      chunk('north', [0, 1], { metadata: { lang: 'ko' } }),
+      chunk('west', [-1, 0]),
+    ]);
+  });
+
+  const ids = (results: { chunk: { id: string } }[]) =>
+    results.map((result) => result.chunk.id);
+
+  it('should rank by cosine similarity, ignoring vector length', async () => {
+    const results = await store.search('docs', [10, 0]);
+
+    expect(ids(results)).toEqual(['east', 'north-east', 'north', 'west']);
+    expect(results.map((result) => result.score)).toEqual([
+      1,
+      expect.closeTo(Math.SQRT1_2),
+      0,
+      -1,
+    ]);
+    expect(results[0].chunk).not.toHaveProperty('embedding');
+  });
+
+  it('should return at most topK results', async () => {
+    const results = await store.search('docs', [1, 0], { topK: 2 });
+
+    expect(ids(results)).toEqual(['east', 'north-east']);
+  });
+
+  it('should only return chunks matching every filter entry', async () => {
+    const results = await store.search('docs', [1, 0], {
+      filter: { lang: 'ko' },
+    });
+
+    expect(ids(results)).toEqual(['north-east', 'north']);
+  });
+
+  it('should drop results below minScore', async () => {
+    const results = await store.search('docs', [1, 0], { minScore: 0.5 });
+
+    expect(ids(results)).toEqual(['east', 'north-east']);
+  });
+
+  it('should skip other collections and other dimensions', async () => {
+    await store.upsert([
+      chunk('elsewhere', [1, 0], { collection: 'other' }),
+      chunk('three-d', [1, 0, 0]),
+    ]);
+
+    const results = await store.search('docs', [1, 0]);
+
+    expect(ids(results)).not.toContain('elsewhere');
+    expect(ids(results)).not.toContain('three-d');
+  });
+
+  it('should replace all chunks of a document', async () => {
+    await store.replaceDocument('docs', 'guide', [
+      chunk('south', [0, -1], { documentId: 'guide' }),
+    ]);
+
+    expect(ids(await store.search('docs', [0, -1]))).toEqual(['south']);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  VectorChunk,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from '../interfaces/vector-store.interface';
+
+/**
+ * Process-local store for tests and prototypes. Search is a linear scan, so
+ * keep collections small.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private readonly chunks = new Map<string, VectorChunk>();
+
+  async upsert(chunks: VectorChunk[]): Promise<void> {
+    for (const chunk of chunks) {
+      this.chunks.set(chunk.id, chunk);
+    }
+  }
+
+  async search(
+    collection: string,
+    embedding: number[],
+    options: VectorSearchOptions = {}
+  ): Promise<VectorSearchResult[]> {
+    const { topK = 5, filter = {}, minScore } = options;
+
+    return Array.from(this.chunks.values())
+      .filter(
+        (chunk) =>
+          chunk.collection === collection &&
+          chunk.embedding.length === embedding.length &&
+          Object.entries(filter).every(
+            ([key, value]) => chunk.metadata[key] === value
+          )
+      )
+      .map(({ embedding: vector, ...chunk }) => ({
+        chunk,
+        score: cosineSimilarity(vector, embedding),
+      }))
+      .filter((result) => minScore === undefined || result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async replaceDocument(
+    collection: string,
+    documentId: string,
+    chunks: VectorChunk[]
+  ): Promise<void> {
+    await this.deleteDocument(collection, documentId);
+    await this.upsert(chunks);
+  }
+
+  async deleteDocument(collection: string, documentId: string): Promise<void> {
+    for (const [id, chunk] of this.chunks) {
+      if (chunk.collection === collection && chunk.documentId === documentId) {
+        this.chunks.delete(id);
+      }
+    }
+  }
+
+  async deleteCollection(collection: string): Promise<void> {
+    for (const [id, chunk] of this.chunks) {
+      if (chunk.collection === collection) {
+        this.chunks.delete(id);
+      }
+    }
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,82 @@
+import { DataSource } from 'typeorm';
+import { PgVectorStore } from './pg-vector.store';
+import { VectorChunk } from '../interfaces/vector-store.interface';
+
+describe('PgVectorStore', () => {
+  let query: jest.Mock;
+  let store: PgVectorStore;
+
+  const chunk: VectorChunk = {
+    id: '3f2b8c1e-5a4d-4e6f-9b7a-1c2d3e4f5a6b',
+    collection: 'docs',
+    documentId: 'guide',
+    chunkIndex: 2,
+    content: 'Hello',
+    metadata: { lang: 'en' },
+    embedding: [0.1, 0.2, 0.3],
+  };
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([]);
+    const dataSource = {
+      query,
+      transaction: (work: (manager: { query: jest.Mock }) => unknown) =>
+        work({ query }),
+    };
+    store = new PgVectorStore(
+      dataSource as unknown as DataSource,
+      'rag_chunks',
+      3
+    );
+  });
+
+  const statements = () =>
+    query.mock.calls.map(([sql]) => (sql as string).replace(/\s+/g, ' '));
+
+  it('should create a dimension-typed column with an HNSW index', async () => {
+    await store.search('docs', [1, 0, 0]);
+
+    expect(statements()).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('embedding vector(3) NOT NULL'),
+        expect.stringContaining(
+          'ON rag_chunks USING hnsw (embedding vector_cosine_ops)'
+        ),
+      ])
+    );
+  });
+
+  it('should update every column when a chunk id already exists', async () => {
+    await store.upsert([chunk]);
+
+    const upsert = statements().find((sql) => sql.startsWith('INSERT'));
+    for (const column of [
+      'collection',
+      'document_id',
+      'chunk_index',
+      'content',
+      'metadata',
+      'embedding',
+    ]) {
+      expect(upsert).toContain(`${column} = EXCLUDED.${column}`);
+    }
+  });
+
+  it('should reject embeddings of another dimension', async () => {
+    await expect(
+      store.upsert([{ ...chunk, embedding: [0.1, 0.2] }])
+    ).rejects.toThrow(
+      'Expected 3-dimensional embeddings for rag_chunks, got 2'
+    );
+    await expect(store.search('docs', [1, 0])).rejects.toThrow(
+      'Expected 3-dimensional embeddings'
+    );
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should reject dimensions pgvector cannot index', () => {
+    expect(
+      () => new PgVectorStore({} as DataSource, 'rag_chunks', 3072)
+    ).toThrow('Vector dimensions must be an integer from 1 to 2000');
+  });
+});
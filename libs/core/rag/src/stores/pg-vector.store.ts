@@ -0,0 +1,200 @@
+import { Logger } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import {
+  VectorChunk,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from '../interfaces/vector-store.interface';
+
+interface ChunkRow {
+  id: string;
+  collection: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  metadata: VectorChunk['metadata'];
+  score: string;
+}
+
+/**
+ * Postgres store backed by the pgvector extension. The table is created on
+ * first use with an HNSW index for cosine distance, which needs the embedding
+ * column typed with a fixed dimension; every collection in the table must
+ * therefore be embedded with a model of that dimension.
+ */
+export class PgVectorStore implements VectorStore {
+  private readonly logger = new Logger(PgVectorStore.name);
+  private schemaReady?: Promise<void>;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly tableName = 'rag_chunks',
+    private readonly dimensions = 1536
+  ) {
+    if (!/^[a-z_][a-z0-9_]*$/i.test(tableName)) {
+      throw new Error(`Invalid vector table name: ${tableName}`);
+    }
+    // pgvector cannot index vector columns with more dimensions
+    if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > 2000) {
+      throw new Error(
+        `Vector dimensions must be an integer from 1 to 2000: ${dimensions}`
+      );
+    }
+  }
+
+  async upsert(chunks: VectorChunk[]): Promise<void> {
+    if (!chunks.length) return;
+    chunks.forEach((chunk) => this.checkDimensions(chunk.embedding));
+    await this.ensureSchema();
+
+    await this.dataSource.transaction((manager) =>
+      this.insertChunks(manager, chunks)
+    );
+  }
+
+  async replaceDocument(
+    collection: string,
+    documentId: string,
+    chunks: VectorChunk[]
+  ): Promise<void> {
+    chunks.forEach((chunk) => this.checkDimensions(chunk.embedding));
+    await this.ensureSchema();
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.query(
+        `DELETE FROM ${this.tableName} WHERE collection = $1 AND document_id = $2`,
+        [collection, documentId]
+      );
+      await this.insertChunks(manager, chunks);
+    });
+  }
+
+  async search(
+    collection: string,
+    embedding: number[],
+    options: VectorSearchOptions = {}
+  ): Promise<VectorSearchResult[]> {
+    const { topK = 5, filter = {}, minScore } = options;
+    this.checkDimensions(embedding);
+    await this.ensureSchema();
+
+    const rows: ChunkRow[] = await this.dataSource.query(
+      `SELECT id, collection, document_id, chunk_index, content, metadata,
+              1 - (embedding <=> $2::vector) AS score
+         FROM ${this.tableName}
+        WHERE collection = $1
+          AND metadata @> $3::jsonb
+        ORDER BY embedding <=> $2::vector
+        LIMIT $4`,
+      [collection, this.toVector(embedding), JSON.stringify(filter), topK]
+    );
+
+    return rows
+      .map((row) => ({
+        chunk: {
+          id: row.id,
+          collection: row.collection,
+          documentId: row.document_id,
+          chunkIndex: row.chunk_index,
+          content: row.content,
+          metadata: row.metadata,
+        },
+        score: Number(row.score),
+      }))
+      .filter((result) => minScore === undefined || result.score >= minScore);
+  }
+
+  async deleteDocument(collection: string, documentId: string): Promise<void> {
+    await this.ensureSchema();
+    await this.dataSource.query(
+      `DELETE FROM ${this.tableName} WHERE collection = $1 AND document_id = $2`,
+      [collection, documentId]
+    );
+  }
+
+  async deleteCollection(collection: string): Promise<void> {
+    await this.ensureSchema();
+    await this.dataSource.query(
+      `DELETE FROM ${this.tableName} WHERE collection = $1`,
+      [collection]
+    );
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.createSchema().catch((error) => {
+        // Allow the next call to retry, e.g. once the database is reachable
+        this.schemaReady = undefined;
+        throw error;
+      });
+    }
+    return this.schemaReady;
+  }
+
+  private async createSchema(): Promise<void> {
+    await this.dataSource.query('CREATE EXTENSION IF NOT EXISTS vector');
+    await this.dataSource.query(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+         id uuid PRIMARY KEY,
+         collection varchar(255) NOT NULL,
+         document_id varchar(255) NOT NULL,
+         chunk_index integer NOT NULL,
+         content text NOT NULL,
+         metadata jsonb NOT NULL DEFAULT '{}',
+         embedding vector(${this.dimensions}) NOT NULL,
+         created_at timestamp with time zone NOT NULL DEFAULT CURRENT_TIMESTAMP
+       )`
+    );
+    await this.dataSource.query(
+      `CREATE INDEX IF NOT EXISTS ${this.tableName}_collection_idx
+         ON ${this.tableName} (collection, document_id)`
+    );
+    await this.dataSource.query(
+      `CREATE INDEX IF NOT EXISTS ${this.tableName}_embedding_idx
+         ON ${this.tableName} USING hnsw (embedding vector_cosine_ops)`
+    );
+    this.logger.log(`Vector table ${this.tableName} is ready`);
+  }
+
+  private async insertChunks(
+    manager: EntityManager,
+    chunks: VectorChunk[]
+  ): Promise<void> {
+    for (const chunk of chunks) {
+      await manager.query(
+        `INSERT INTO ${this.tableName}
+           (id, collection, document_id, chunk_index, content, metadata, embedding)
+         VALUES ($1, $2, $3, $4, $5, $6, $7::vector)
+         ON CONFLICT (id) DO UPDATE SET
+           collection = EXCLUDED.collection,
+           document_id = EXCLUDED.document_id,
+           chunk_index = EXCLUDED.chunk_index,
+           content = EXCLUDED.content,
+           metadata = EXCLUDED.metadata,
+           embedding = EXCLUDED.embedding`,
+        [
+          chunk.id,
+          chunk.collection,
+          chunk.documentId,
+          chunk.chunkIndex,
+          chunk.content,
+          JSON.stringify(chunk.metadata),
+          this.toVector(chunk.embedding),
+        ]
+      );
+    }
+  }
+
+  private checkDimensions(embedding: number[]): void {
+    if (embedding.length !== this.dimensions) {
+      throw new Error(
+        `Expected ${this.dimensions}-dimensional embeddings for ${this.tableName}, got ${embedding.length}`
+      );
+    }
+  }
+
+  private toVector(embedding: number[]): string {
+    return `[${embedding.join(',')}]`;
+  }
+}
@@ -222,7 +222,7 @@ build_core() {
     print_status "Building core libraries..."
     
     # Check if libraries exist and build them
-    local libs=("core-llm" "core-database" "core-auth")
+    local libs=("core-llm" "core-database" "core-auth" "core-rag")
     
     for lib in "${libs[@]}"; do
         if [ -d "libs/core/${lib#core-}" ]; then